@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Shield, Key, Search, AlertTriangle, CheckCircle, Zap, Target, BarChart3 } from 'lucide-react';
+import { Shield, Key, Search, AlertTriangle, CheckCircle, Zap, Target, BarChart3, Database } from 'lucide-react';
 import TransactionAnalyzer from './components/TransactionAnalyzer';
+import DupeIndexBuilder from './components/DupeIndexBuilder';
 import DuplicateNonceDetector from './components/DuplicateNonceDetector';
 import PrivateKeyRecovery from './components/PrivateKeyRecovery';
 import DenovoAnalyzer from './components/DenovoAnalyzer';
@@ -8,14 +9,19 @@ import AttackAIOCrypto from './components/AttackAIOCrypto';
 import CTFCryptoAttacks from './components/CTFCryptoAttacks';
 import BlockchainAnalyzer from './components/BlockchainAnalyzer';
 import ResultsDisplay from './components/ResultsDisplay';
+import ChainSettings from './components/ChainSettings';
 import { AnalysisResult } from './types/bitcoin';
+import { ChainDataProvider } from './types/chain';
+import { createDemoProvider } from './utils/fixtureProvider';
 
 function App() {
-  const [activeTab, setActiveTab] = useState<'analyze' | 'detect' | 'recover' | 'denovo' | 'attackaio' | 'ctf' | 'blockchain'>('analyze');
+  const [activeTab, setActiveTab] = useState<'analyze' | 'index' | 'detect' | 'recover' | 'denovo' | 'attackaio' | 'ctf' | 'blockchain'>('analyze');
   const [results, setResults] = useState<AnalysisResult[]>([]);
+  const [chainProvider, setChainProvider] = useState<ChainDataProvider | null>(() => createDemoProvider());
 
   const tabs = [
     { id: 'analyze' as const, label: 'Transaction Analysis', icon: Search },
+    { id: 'index' as const, label: 'R-Value Index', icon: Database },
     { id: 'detect' as const, label: 'Duplicate Nonce Detection', icon: AlertTriangle },
     { id: 'recover' as const, label: 'Private Key Recovery', icon: Key },
     { id: 'denovo' as const, label: 'Denovo Scanner', icon: Shield },
@@ -73,16 +79,19 @@ function App() {
           <div className="lg:col-span-2">
             <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl border border-slate-700 p-6">
               {activeTab === 'analyze' && (
-                <TransactionAnalyzer onAnalysisComplete={handleAnalysisComplete} />
+                <TransactionAnalyzer onAnalysisComplete={handleAnalysisComplete} provider={chainProvider} />
+              )}
+              {activeTab === 'index' && (
+                <DupeIndexBuilder onAnalysisComplete={handleAnalysisComplete} provider={chainProvider} />
               )}
               {activeTab === 'detect' && (
-                <DuplicateNonceDetector onAnalysisComplete={handleAnalysisComplete} />
+                <DuplicateNonceDetector onAnalysisComplete={handleAnalysisComplete} provider={chainProvider} />
               )}
               {activeTab === 'recover' && (
                 <PrivateKeyRecovery onAnalysisComplete={handleAnalysisComplete} />
               )}
               {activeTab === 'denovo' && (
-                <DenovoAnalyzer onAnalysisComplete={handleAnalysisComplete} />
+                <DenovoAnalyzer onAnalysisComplete={handleAnalysisComplete} provider={chainProvider} />
               )}
               {activeTab === 'attackaio' && (
                 <AttackAIOCrypto onAnalysisComplete={handleAnalysisComplete} />
@@ -91,12 +100,13 @@ function App() {
                 <CTFCryptoAttacks onAnalysisComplete={handleAnalysisComplete} />
               )}
               {activeTab === 'blockchain' && (
-                <BlockchainAnalyzer onAnalysisComplete={handleAnalysisComplete} />
+                <BlockchainAnalyzer onAnalysisComplete={handleAnalysisComplete} provider={chainProvider} />
               )}
             </div>
           </div>
 
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-8">
+            <ChainSettings provider={chainProvider} onProviderChange={setChainProvider} />
             <ResultsDisplay results={results} onClear={() => setResults([])} />
           </div>
         </div>
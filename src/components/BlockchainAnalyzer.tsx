@@ -23,12 +23,20 @@ import {
   TransactionFlow 
 } from '../types/blockchain';
 import { AnalysisResult } from '../types/bitcoin';
+import { ChainDataProvider } from '../types/chain';
+import {
+  assessAddressRisk,
+  fetchBlockchainTransaction,
+  summarizeAddress,
+  traceTransactionFlow
+} from '../utils/chainData';
 
 interface Props {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
+  provider?: ChainDataProvider | null;
 }
 
-const BlockchainAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
+const BlockchainAnalyzer: React.FC<Props> = ({ onAnalysisComplete, provider }) => {
   const [activeTab, setActiveTab] = useState<'transaction' | 'address' | 'flow' | 'compliance'>('transaction');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -46,146 +54,28 @@ const BlockchainAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
     { id: 'compliance' as const, label: 'Compliance Check', icon: Shield }
   ];
 
+  // Every tab reads from the selected chain data backend
+  const requireProvider = (): ChainDataProvider => {
+    if (!provider) {
+      throw new Error('Select a chain data backend first');
+    }
+    return provider;
+  };
+
   const analyzeTransaction = async (txHash: string): Promise<BlockchainTransaction> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Mock transaction data
-    return {
-      hash: txHash,
-      version: 1,
-      lockTime: 0,
-      inputs: [
-        {
-          previousTxHash: generateRandomHash(),
-          previousTxIndex: 0,
-          scriptSig: generateRandomHex(200),
-          sequence: 0xffffffff,
-          value: Math.floor(Math.random() * 1000000) + 10000,
-          address: generateMockAddress()
-        }
-      ],
-      outputs: [
-        {
-          value: Math.floor(Math.random() * 500000) + 5000,
-          scriptPubKey: generateRandomHex(50),
-          address: generateMockAddress(),
-          type: 'P2PKH'
-        },
-        {
-          value: Math.floor(Math.random() * 400000) + 4000,
-          scriptPubKey: generateRandomHex(50),
-          address: generateMockAddress(),
-          type: 'P2PKH'
-        }
-      ],
-      size: Math.floor(Math.random() * 500) + 250,
-      weight: Math.floor(Math.random() * 2000) + 1000,
-      fee: Math.floor(Math.random() * 10000) + 1000,
-      confirmations: Math.floor(Math.random() * 100) + 1,
-      blockHash: generateRandomHash(),
-      blockHeight: Math.floor(Math.random() * 800000) + 700000,
-      timestamp: Date.now() - Math.floor(Math.random() * 86400000)
-    };
+    return fetchBlockchainTransaction(requireProvider(), txHash);
   };
 
   const analyzeAddress = async (address: string): Promise<Address> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    const totalReceived = Math.floor(Math.random() * 10000000) + 100000;
-    const totalSent = Math.floor(Math.random() * 8000000) + 50000;
-    
-    return {
-      address,
-      balance: totalReceived - totalSent,
-      totalReceived,
-      totalSent,
-      transactionCount: Math.floor(Math.random() * 1000) + 10,
-      unconfirmedBalance: Math.floor(Math.random() * 100000),
-      firstSeen: Date.now() - Math.floor(Math.random() * 31536000000), // Random time in last year
-      lastSeen: Date.now() - Math.floor(Math.random() * 86400000) // Random time in last day
-    };
+    return summarizeAddress(requireProvider(), address);
   };
 
   const analyzeTransactionFlow = async (startAddress: string, depth: number = 3): Promise<TransactionFlow[]> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2500));
-    
-    const flows: TransactionFlow[] = [];
-    let currentAddresses = [startAddress];
-    
-    for (let hop = 0; hop < depth; hop++) {
-      const nextAddresses: string[] = [];
-      
-      for (const addr of currentAddresses) {
-        const numFlows = Math.floor(Math.random() * 3) + 1;
-        
-        for (let i = 0; i < numFlows; i++) {
-          const toAddress = generateMockAddress();
-          nextAddresses.push(toAddress);
-          
-          flows.push({
-            fromAddress: addr,
-            toAddress,
-            value: Math.floor(Math.random() * 1000000) + 10000,
-            txHash: generateRandomHash(),
-            timestamp: Date.now() - Math.floor(Math.random() * 86400000),
-            hops: hop + 1
-          });
-        }
-      }
-      
-      currentAddresses = nextAddresses.slice(0, 5); // Limit to prevent explosion
-    }
-    
-    return flows;
+    return traceTransactionFlow(requireProvider(), startAddress, depth);
   };
 
   const performComplianceCheck = async (address: string): Promise<RiskAssessment> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const riskFactors = [
-      {
-        type: 'High Transaction Volume',
-        description: 'Address shows unusually high transaction volume',
-        severity: Math.floor(Math.random() * 50) + 25,
-        evidence: ['Multiple large transactions', 'Frequent activity patterns']
-      },
-      {
-        type: 'Exchange Interaction',
-        description: 'Transactions with known exchange addresses',
-        severity: Math.floor(Math.random() * 30) + 10,
-        evidence: ['Binance hot wallet interaction', 'Coinbase deposit detected']
-      },
-      {
-        type: 'Mixing Service',
-        description: 'Potential interaction with mixing services',
-        severity: Math.floor(Math.random() * 80) + 40,
-        evidence: ['CoinJoin patterns detected', 'Multiple small outputs']
-      }
-    ];
-    
-    const totalRisk = riskFactors.reduce((sum, factor) => sum + factor.severity, 0) / riskFactors.length;
-    
-    let riskLevel: RiskAssessment['riskLevel'];
-    if (totalRisk < 25) riskLevel = 'LOW';
-    else if (totalRisk < 50) riskLevel = 'MEDIUM';
-    else if (totalRisk < 75) riskLevel = 'HIGH';
-    else riskLevel = 'CRITICAL';
-    
-    return {
-      riskScore: Math.round(totalRisk),
-      riskLevel,
-      factors: riskFactors,
-      recommendations: [
-        'Enhanced due diligence recommended',
-        'Monitor for suspicious activity patterns',
-        'Consider additional verification requirements',
-        'Review transaction history for compliance'
-      ]
-    };
+    return assessAddressRisk(requireProvider(), address);
   };
 
   const handleAnalysis = async () => {
@@ -243,11 +133,12 @@ const BlockchainAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
           break;
       }
     } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
       onAnalysisComplete([{
         type: 'error',
         timestamp: Date.now(),
-        data: { error: error instanceof Error ? error.message : 'Analysis failed' },
-        message: 'Blockchain analysis failed'
+        data: { error: errorMessage },
+        message: `Blockchain analysis failed: ${errorMessage}`
       }]);
     } finally {
       setIsAnalyzing(false);
@@ -291,28 +182,6 @@ const BlockchainAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
     }
   };
 
-  const generateRandomHash = (): string => {
-    return Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
-  };
-
-  const generateRandomHex = (length: number): string => {
-    return Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('');
-  };
-
-  const generateMockAddress = (): string => {
-    const prefixes = ['1', '3', 'bc1'];
-    const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-    const chars = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-    let address = prefix;
-    const length = prefix === 'bc1' ? 39 : 25;
-    
-    for (let i = 0; i < length; i++) {
-      address += chars[Math.floor(Math.random() * chars.length)];
-    }
-    
-    return address;
-  };
-
   return (
     <div className="space-y-6">
       <div>
@@ -413,7 +282,7 @@ const BlockchainAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
                 </div>
                 <div className="bg-slate-800/50 rounded-lg p-4">
                   <div className="text-sm text-gray-400 mb-1">Fee</div>
-                  <div className="text-xl font-bold text-white">{formatValue(transactionData.fee)}</div>
+                  <div className="text-xl font-bold text-white">{transactionData.fee !== undefined ? formatValue(transactionData.fee) : 'Unknown'}</div>
                 </div>
                 <div className="bg-slate-800/50 rounded-lg p-4">
                   <div className="text-sm text-gray-400 mb-1">Size</div>
@@ -23,6 +23,7 @@ import {
   FrequencyAnalysis 
 } from '../types/ctf';
 import { AnalysisResult } from '../types/bitcoin';
+import { modInverse, modPow } from '../utils/secp256k1';
 
 interface Props {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
@@ -121,39 +122,6 @@ const CTFCryptoAttacks: React.FC<Props> = ({ onAnalysisComplete }) => {
 
   const abs = (x: bigint): bigint => x < 0n ? -x : x;
 
-  const modInverse = (a: bigint, m: bigint): bigint => {
-    if (a < 0n) a = ((a % m) + m) % m;
-    
-    let [oldR, r] = [a, m];
-    let [oldS, s] = [1n, 0n];
-    
-    while (r !== 0n) {
-      const quotient = oldR / r;
-      [oldR, r] = [r, oldR - quotient * r];
-      [oldS, s] = [s, oldS - quotient * s];
-    }
-    
-    if (oldR > 1n) throw new Error('Modular inverse does not exist');
-    if (oldS < 0n) oldS += m;
-    
-    return oldS;
-  };
-
-  const modPow = (base: bigint, exp: bigint, mod: bigint): bigint => {
-    let result = 1n;
-    base = base % mod;
-    
-    while (exp > 0n) {
-      if (exp % 2n === 1n) {
-        result = (result * base) % mod;
-      }
-      exp = exp >> 1n;
-      base = (base * base) % mod;
-    }
-    
-    return result;
-  };
-
   const attackRSA = async (): Promise<AttackResult> => {
     const startTime = Date.now();
     
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { Server, Loader2, Plug, Unplug, Database, Trash2 } from 'lucide-react';
+import { ChainBackend, ChainCacheStats, ChainDataProvider, ChainFixture } from '../types/chain';
+import { Network } from '../utils/address';
+import { BitcoinRpcProvider, parseBitcoinConf } from '../utils/bitcoinRpc';
+import { EsploraProvider } from '../utils/esploraProvider';
+import { createDemoProvider, FixtureChainProvider } from '../utils/fixtureProvider';
+import { CachedChainProvider, TransactionCache } from '../utils/txCache';
+
+interface Props {
+  provider: ChainDataProvider | null;
+  onProviderChange: (provider: ChainDataProvider | null) => void;
+}
+
+const describeFixture = (fixture: FixtureChainProvider) => {
+  return `${fixture.blockCount} blocks, ${fixture.transactionCount} transactions`;
+};
+
+const ChainSettings: React.FC<Props> = ({ provider, onProviderChange }) => {
+  const [backend, setBackend] = useState<ChainBackend>(provider?.backend ?? 'fixture');
+  const [confText, setConfText] = useState('');
+  const [url, setUrl] = useState('');
+  const [esploraUrl, setEsploraUrl] = useState('http://localhost:3000');
+  const [esploraNetwork, setEsploraNetwork] = useState<Network>('mainnet');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [status, setStatus] = useState(() => {
+    return provider instanceof FixtureChainProvider ? `Fixture: ${describeFixture(provider)}` : '';
+  });
+  const [error, setError] = useState('');
+  // Shared by every network backend, and kept across reconnects
+  const [cache] = useState(() => new TransactionCache());
+  const [cacheStats, setCacheStats] = useState<ChainCacheStats>(() => cache.stats);
+
+  useEffect(() => cache.subscribe(setCacheStats), [cache]);
+
+  const handleBackendChange = (next: ChainBackend) => {
+    setBackend(next);
+    setError('');
+    setStatus('');
+    if (next === 'fixture') {
+      const demo = createDemoProvider();
+      setStatus(`Demo fixture: ${describeFixture(demo)}`);
+      onProviderChange(demo);
+    } else {
+      onProviderChange(null);
+    }
+  };
+
+  const readFile = (event: React.ChangeEvent<HTMLInputElement>, onLoad: (content: string) => void) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => onLoad(e.target?.result as string);
+    reader.readAsText(file);
+  };
+
+  const handleFixtureUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readFile(event, content => {
+      try {
+        const fixture = new FixtureChainProvider(JSON.parse(content) as ChainFixture);
+        setError('');
+        setStatus(`Loaded fixture: ${describeFixture(fixture)}`);
+        onProviderChange(fixture);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid fixture');
+      }
+    });
+  };
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    setError('');
+    setStatus('');
+
+    try {
+      if (backend === 'esplora') {
+        const candidate = new EsploraProvider(esploraUrl.trim(), esploraNetwork);
+        const height = await candidate.getTipHeight();
+
+        setStatus(`Connected to Esplora (${esploraNetwork}) at height ${height}`);
+        onProviderChange(new CachedChainProvider(candidate, cache));
+        return;
+      }
+
+      // The URL field overrides rpcconnect/rpcport, e.g. for a CORS proxy
+      const readConfig = () => {
+        const config = parseBitcoinConf(confText);
+        return url.trim() ? { ...config, url: url.trim() } : config;
+      };
+      const candidate = new BitcoinRpcProvider(readConfig(), { onReconnect: readConfig });
+      const height = await candidate.getBlockCount();
+
+      setStatus(`Connected to ${candidate.chain} at height ${height}`);
+      onProviderChange(new CachedChainProvider(candidate, cache));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+      onProviderChange(null);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = () => {
+    setStatus('');
+    onProviderChange(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl border border-slate-700 p-6 space-y-4">
+      <div className="flex items-center">
+        <Server className="w-5 h-5 text-purple-400 mr-2" />
+        <h3 className="text-lg font-semibold text-white">Chain Data Backend</h3>
+      </div>
+
+      <select
+        value={backend}
+        onChange={(e) => handleBackendChange(e.target.value as ChainBackend)}
+        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+      >
+        <option value="fixture">Offline fixture</option>
+        <option value="rpc">Bitcoin Core RPC</option>
+        <option value="esplora">Esplora / electrs REST</option>
+      </select>
+
+      {backend === 'fixture' && (
+        <div>
+          <p className="text-gray-400 text-sm mb-2">
+            Uses the built-in demo chain, or a JSON fixture of blocks and raw transactions.
+          </p>
+          <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+            <Database className="w-4 h-4 mr-2 text-gray-400" />
+            <span>Load fixture JSON</span>
+            <input type="file" accept=".json" onChange={handleFixtureUpload} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {backend === 'rpc' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              bitcoin.conf
+            </label>
+            <textarea
+              value={confText}
+              onChange={(e) => setConfText(e.target.value)}
+              placeholder={'rpcuser=...\nrpcpassword=...\nrpcport=8332'}
+              rows={4}
+              className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-xs"
+            />
+            <input
+              type="file"
+              accept=".conf,.txt"
+              onChange={(e) => readFile(e, setConfText)}
+              className="mt-2 text-xs text-gray-400"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              URL Override (optional)
+            </label>
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="http://127.0.0.1:8332 or a proxy path"
+              className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+            />
+          </div>
+        </>
+      )}
+
+      {backend === 'esplora' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Esplora Base URL
+            </label>
+            <input
+              type="text"
+              value={esploraUrl}
+              onChange={(e) => setEsploraUrl(e.target.value)}
+              placeholder="http://localhost:3000 or https://blockstream.info/api"
+              className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Network
+            </label>
+            <select
+              value={esploraNetwork}
+              onChange={(e) => setEsploraNetwork(e.target.value as Network)}
+              className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+            >
+              <option value="mainnet">Mainnet</option>
+              <option value="testnet">Testnet / Signet</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      {status && <p className="text-green-400 text-sm">{status}</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {backend !== 'fixture' && (provider?.backend === backend ? (
+        <button
+          onClick={handleDisconnect}
+          className="w-full flex items-center justify-center px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors duration-200"
+        >
+          <Unplug className="w-4 h-4 mr-2" />
+          Disconnect
+        </button>
+      ) : (
+        <button
+          onClick={handleConnect}
+          disabled={isConnecting || (backend === 'rpc' ? !confText.trim() && !url.trim() : !esploraUrl.trim())}
+          className="w-full flex items-center justify-center px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200"
+        >
+          {isConnecting ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Connecting...
+            </>
+          ) : (
+            <>
+              <Plug className="w-4 h-4 mr-2" />
+              Connect
+            </>
+          )}
+        </button>
+      ))}
+
+      {backend !== 'fixture' && (
+        <div className="flex items-center justify-between text-xs text-gray-400 pt-2 border-t border-slate-700">
+          <span>
+            Cache: {cacheStats.hits} hits, {cacheStats.misses} misses, {cacheStats.entries}/{cacheStats.capacity} in memory
+            {cacheStats.persistent ? ' (IndexedDB)' : ' (memory only)'}
+          </span>
+          <button
+            onClick={() => cache.clear()}
+            className="flex items-center text-gray-400 hover:text-white transition-colors duration-200"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChainSettings;
@@ -1,16 +1,23 @@
 import React, { useState, useRef } from 'react';
 import { Shield, Upload, Play, Pause, Download, AlertTriangle, Info, CheckCircle, XCircle } from 'lucide-react';
-import { DenovoAnalysisResult, DenovoBatchResult, DenovoConfig, DenovoVulnerability } from '../types/denovo';
+import { DenovoAnalysisResult, DenovoBatchResult, DenovoConfig, DenovoInput, DenovoUntestedCheck, DenovoVulnerability } from '../types/denovo';
 import { analyzeDenovoTransaction, analyzeDenovoBatch } from '../utils/denovoAnalysis';
+import { parseNonceRelation } from '../utils/relatedNonce';
+import { MAX_POLYNONCE_DEGREE } from '../utils/polynonce';
+import { DEFAULT_SMALL_NONCE_BITS, MAX_SMALL_NONCE_BITS } from '../utils/weakNonce';
+import { DEFAULT_NONCE_TEST_SIGNIFICANCE, MIN_NONCE_TEST_SIGNATURES } from '../utils/nonceStatistics';
 import { AnalysisResult } from '../types/bitcoin';
+import { ChainDataProvider } from '../types/chain';
 
 interface Props {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
+  provider?: ChainDataProvider | null;
 }
 
-const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
+const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete, provider }) => {
   const [activeMode, setActiveMode] = useState<'single' | 'batch'>('single');
   const [txid, setTxid] = useState('');
+  const [prevoutText, setPrevoutText] = useState('');
   const [batchFile, setBatchFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -19,16 +26,38 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
   const [batchResults, setBatchResults] = useState<DenovoBatchResult | null>(null);
   const [config, setConfig] = useState<DenovoConfig>({
     enableWeakNonceDetection: true,
+    weakNonceTableBits: DEFAULT_SMALL_NONCE_BITS,
     enableBiasedNonceDetection: true,
+    enableBiasedNonceLattice: false,
+    biasedNonceLeadingZeroBits: 8,
+    biasedNonceBlockSize: 10,
+    nonceTestSignificance: DEFAULT_NONCE_TEST_SIGNIFICANCE,
     enableMalleabilityCheck: true,
     enableLowSCheck: true,
+    enableRelatedNonceDetection: true,
+    relatedNonceMaxOffset: 4096,
+    enablePolynonceDetection: true,
+    polynonceDegree: 1,
+    enableNonceDerivationCheck: true,
     batchSize: 100,
     timeoutMs: 30000
   });
+  const [relationA, setRelationA] = useState('');
+  const [relationB, setRelationB] = useState('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // The relation fields are optional; a missing a means 1 and a missing b means 0
+  const analysisConfig = (): DenovoConfig => {
+    if (!relationA.trim() && !relationB.trim()) {
+      return { ...config, relatedNonceRelation: undefined };
+    }
+    const relation = { a: relationA.trim() || '1', b: relationB.trim() || '0' };
+    parseNonceRelation(relation);
+    return { ...config, relatedNonceRelation: relation };
+  };
+
   const handleSingleAnalysis = async () => {
     if (!txid.trim()) return;
 
@@ -37,7 +66,13 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
     abortControllerRef.current = new AbortController();
 
     try {
-      const result = await analyzeDenovoTransaction(txid.trim(), config, abortControllerRef.current.signal);
+      const result = await analyzeDenovoTransaction(
+        txid.replace(/\s+/g, ''),
+        analysisConfig(),
+        abortControllerRef.current.signal,
+        parsePrevouts(prevoutText),
+        provider
+      );
       setCurrentResult(result);
       
       onAnalysisComplete([{
@@ -75,11 +110,12 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
       
       const result = await analyzeDenovoBatch(
         txids,
-        config,
+        analysisConfig(),
         abortControllerRef.current.signal,
         (current, total) => {
           setProgress((current / total) * 100);
-        }
+        },
+        provider
       );
       
       setBatchResults(result);
@@ -106,6 +142,17 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
     }
   };
 
+  // One line per input: `<scriptPubKey hex> <value in satoshis>`; blank lines keep their slot
+  const parsePrevouts = (text: string): DenovoInput['prevout'][] => {
+    if (!text.trim()) return [];
+
+    return text.split('\n').map(line => {
+      const [scriptPubKey, value] = line.trim().split(/\s+/);
+      if (!scriptPubKey || !value) return undefined;
+      return { scriptPubKey: scriptPubKey.toLowerCase(), value: parseInt(value, 10) };
+    });
+  };
+
   const handlePauseResume = () => {
     setIsPaused(!isPaused);
   };
@@ -151,6 +198,69 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
     }
   };
 
+  const renderVulnerability = (vuln: DenovoVulnerability, index: number) => (
+    <div key={index} className={`border rounded-lg p-4 ${getSeverityColor(vuln.severity)}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <span className="font-medium">{vuln.type.replace('_', ' ')}</span>
+        </div>
+        <span className="px-2 py-1 rounded text-xs font-medium bg-current bg-opacity-20">
+          {vuln.severity}
+        </span>
+      </div>
+      <p className="text-sm mb-2">{vuln.description}</p>
+      <div className="text-xs space-y-1">
+        <div><strong>Exploitability:</strong> {vuln.exploitability}</div>
+        <div><strong>Recommendation:</strong> {vuln.recommendation}</div>
+        <div><strong>Affected Signatures:</strong> {vuln.affectedSignatures.length}</div>
+        {vuln.recoveredKeys?.map(key => (
+          <div key={key.publicKey} className="font-mono break-all">
+            <strong>Recovered Key:</strong> {key.privateKey} ({key.publicKey.substring(0, 16)}...)
+            {key.relation && <span className="ml-1">via {key.relation}</span>}
+          </div>
+        ))}
+        {vuln.evidence?.map((test, i) => (
+          <div key={i} className="font-mono break-all">
+            <strong>{test.passed ? 'Pass' : 'Fail'}:</strong> {test.name} on {test.target} of {test.publicKey.substring(0, 16)}...,
+            p = {test.pValue.toExponential(2)} (threshold {test.threshold.toExponential(2)}), {test.detail}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderUntestedChecks = (checks: DenovoUntestedCheck[]) => checks.length > 0 && (
+    <div>
+      <h5 className="text-lg font-semibold text-white mb-3">Not Tested</h5>
+      <div className="space-y-2">
+        {checks.map(check => (
+          <div key={check.check} className="border border-gray-600 rounded-lg p-3 text-sm text-gray-300">
+            <div className="flex items-center mb-1">
+              <Info className="w-4 h-4 mr-2 text-blue-400" />
+              <span className="font-medium">{check.type.replace('_', ' ')}: {check.check}</span>
+            </div>
+            <p className="text-xs text-gray-400">{check.reason}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderErrors = (errors: string[]) => errors.length > 0 && (
+    <div>
+      <h5 className="text-lg font-semibold text-white mb-3">Skipped Inputs</h5>
+      <div className="space-y-2">
+        {errors.map((error, index) => (
+          <div key={index} className="flex items-start border border-yellow-700 rounded-lg p-3 text-xs text-yellow-300 font-mono break-all">
+            <XCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   const getRiskScoreColor = (score: number) => {
     if (score >= 80) return 'text-red-400';
     if (score >= 60) return 'text-orange-400';
@@ -163,7 +273,7 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
       <div>
         <h2 className="text-2xl font-bold text-white mb-2">Denovo Vulnerability Scanner</h2>
         <p className="text-gray-300">
-          Advanced Bitcoin transaction analysis for ECDSA vulnerabilities, weak nonces, and signature malleability.
+          Advanced Bitcoin transaction analysis for ECDSA and Schnorr vulnerabilities, weak nonces, and signature malleability.
         </p>
       </div>
 
@@ -213,6 +323,15 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
             />
             <span className="text-sm text-gray-300">Biased Nonce Detection</span>
           </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.enableBiasedNonceLattice}
+              onChange={(e) => setConfig(prev => ({ ...prev, enableBiasedNonceLattice: e.target.checked }))}
+              className="rounded bg-slate-600 border-slate-500 text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-sm text-gray-300">Biased Nonce Lattice Attack (slow)</span>
+          </label>
           <label className="flex items-center space-x-2">
             <input
               type="checkbox"
@@ -231,7 +350,175 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
             />
             <span className="text-sm text-gray-300">Low-S Enforcement</span>
           </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.enableRelatedNonceDetection}
+              onChange={(e) => setConfig(prev => ({ ...prev, enableRelatedNonceDetection: e.target.checked }))}
+              className="rounded bg-slate-600 border-slate-500 text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-sm text-gray-300">Related Nonce Detection</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.enablePolynonceDetection}
+              onChange={(e) => setConfig(prev => ({ ...prev, enablePolynonceDetection: e.target.checked }))}
+              className="rounded bg-slate-600 border-slate-500 text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-sm text-gray-300">Polynonce Detection</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.enableNonceDerivationCheck}
+              onChange={(e) => setConfig(prev => ({ ...prev, enableNonceDerivationCheck: e.target.checked }))}
+              className="rounded bg-slate-600 border-slate-500 text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-sm text-gray-300">Nonce Derivation Check</span>
+          </label>
         </div>
+
+        {config.enableWeakNonceDetection && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Small Nonce Table (k up to 2^bits)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_SMALL_NONCE_BITS}
+                value={config.weakNonceTableBits}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  weakNonceTableBits: Math.min(MAX_SMALL_NONCE_BITS, Math.max(1, parseInt(e.target.value, 10) || 1))
+                }))}
+                className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {config.enableBiasedNonceDetection && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            {config.enableBiasedNonceLattice && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Assumed Leading Zero Bits
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={128}
+                    value={config.biasedNonceLeadingZeroBits}
+                    onChange={(e) => setConfig(prev => ({
+                      ...prev,
+                      biasedNonceLeadingZeroBits: Math.min(128, Math.max(1, parseInt(e.target.value, 10) || 1))
+                    }))}
+                    className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    BKZ Block Size (0 = LLL only)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={config.biasedNonceBlockSize}
+                    onChange={(e) => setConfig(prev => ({
+                      ...prev,
+                      biasedNonceBlockSize: Math.min(30, Math.max(0, parseInt(e.target.value, 10) || 0))
+                    }))}
+                    className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Statistical Test Significance (family-wise)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={0.5}
+                step={0.001}
+                value={config.nonceTestSignificance}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  nonceTestSignificance: Math.min(0.5, Math.max(0, parseFloat(e.target.value) || 0))
+                }))}
+                className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {config.enableRelatedNonceDetection && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Counter Search (max |b| in k2 = k1 + b)
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={config.relatedNonceMaxOffset}
+                onChange={(e) => setConfig(prev => ({ ...prev, relatedNonceMaxOffset: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Relation a (k2 = a·k1 + b)
+              </label>
+              <input
+                type="text"
+                value={relationA}
+                onChange={(e) => setRelationA(e.target.value)}
+                placeholder="1"
+                className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Relation b (decimal or 0x hex)
+              </label>
+              <input
+                type="text"
+                value={relationB}
+                onChange={(e) => setRelationB(e.target.value)}
+                placeholder="0"
+                className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {config.enablePolynonceDetection && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Polynonce Degree (needs degree + 3 signatures per key)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_POLYNONCE_DEGREE}
+                value={config.polynonceDegree}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  polynonceDegree: Math.min(MAX_POLYNONCE_DEGREE, Math.max(1, parseInt(e.target.value, 10) || 1))
+                }))}
+                className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Single Transaction Mode */}
@@ -239,14 +526,27 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Transaction ID
+              Transaction ID or Raw Transaction
             </label>
-            <input
-              type="text"
+            <textarea
               value={txid}
               onChange={(e) => setTxid(e.target.value)}
-              placeholder="Enter Bitcoin transaction ID..."
-              className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              placeholder="Enter a transaction ID or paste the raw transaction hex..."
+              rows={3}
+              className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Spent Outputs (one line per input: scriptPubKey value_sats)
+            </label>
+            <textarea
+              value={prevoutText}
+              onChange={(e) => setPrevoutText(e.target.value)}
+              placeholder={provider ? 'Fetched from the chain backend if empty' : '0014751e76e8199196d454941c45d1b3a323f1433bd6 100000000'}
+              rows={3}
+              className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
             />
           </div>
 
@@ -394,28 +694,14 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
                 <div>
                   <h5 className="text-lg font-semibold text-white mb-3">Detected Vulnerabilities</h5>
                   <div className="space-y-3">
-                    {currentResult.vulnerabilities.map((vuln, index) => (
-                      <div key={index} className={`border rounded-lg p-4 ${getSeverityColor(vuln.severity)}`}>
-                        <div className="flex items-center justify-between mb-2">
-                          <div className="flex items-center">
-                            <AlertTriangle className="w-5 h-5 mr-2" />
-                            <span className="font-medium">{vuln.type.replace('_', ' ')}</span>
-                          </div>
-                          <span className="px-2 py-1 rounded text-xs font-medium bg-current bg-opacity-20">
-                            {vuln.severity}
-                          </span>
-                        </div>
-                        <p className="text-sm mb-2">{vuln.description}</p>
-                        <div className="text-xs space-y-1">
-                          <div><strong>Exploitability:</strong> {vuln.exploitability}</div>
-                          <div><strong>Recommendation:</strong> {vuln.recommendation}</div>
-                          <div><strong>Affected Signatures:</strong> {vuln.affectedSignatures.length}</div>
-                        </div>
-                      </div>
-                    ))}
+                    {currentResult.vulnerabilities.map(renderVulnerability)}
                   </div>
                 </div>
               )}
+
+              {renderUntestedChecks(currentResult.untestedChecks)}
+
+              {renderErrors(currentResult.errors)}
             </div>
           )}
 
@@ -447,6 +733,21 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
                 </div>
               </div>
 
+              {batchResults.pooledVulnerabilities.length > 0 && (
+                <div>
+                  <h5 className="text-lg font-semibold text-white mb-3">
+                    Per-Key Findings ({batchResults.pooledSignatures} signatures across the batch)
+                  </h5>
+                  <div className="space-y-3">
+                    {batchResults.pooledVulnerabilities.map(renderVulnerability)}
+                  </div>
+                </div>
+              )}
+
+              {renderUntestedChecks(batchResults.untestedChecks)}
+
+              {renderErrors(batchResults.errors)}
+
               {Object.keys(batchResults.vulnerabilityBreakdown).length > 0 && (
                 <div>
                   <h5 className="text-lg font-semibold text-white mb-3">Vulnerability Breakdown</h5>
@@ -469,12 +770,18 @@ const DenovoAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
       <div className="bg-slate-700/30 rounded-lg p-4">
         <h3 className="text-lg font-semibold text-white mb-2">Denovo Analysis Features</h3>
         <ul className="text-gray-300 text-sm space-y-1">
-          <li>• <strong>Weak Nonce Detection:</strong> Identifies predictable or low-entropy nonces</li>
-          <li>• <strong>Biased Nonce Detection:</strong> Detects statistical bias in nonce generation</li>
+          <li>• <strong>Weak Nonce Detection:</strong> Looks every r up in a table of small nonces (k up to 2^bits) and known bad constants such as n - 1 and SHA256(""), recovering the key from a single matching signature</li>
+          <li>• <strong>Biased Nonce Detection:</strong> Opt-in lattice (Hidden Number Problem) attack with LLL/BKZ on keys whose nonces have leading zero bits, bounded by the timeout and reporting how many signatures it took, plus monobit, runs, bit-position, leading-bit chi-squared and collision tests over r and s for keys with at least {MIN_NONCE_TEST_SIGNATURES} signatures, each with its p-value as evidence, Holm-corrected per key and Bonferroni-corrected across keys</li>
           <li>• <strong>Duplicate Nonce Detection:</strong> Finds reused nonces across signatures</li>
+          <li>• <strong>Related Nonce Detection:</strong> Recovers keys whose nonces follow k2 = a·k1 + b, from a given relation or a search over small counters</li>
+          <li>• <strong>Polynonce Detection:</strong> Recovers keys whose consecutive nonces follow an unknown polynomial recurrence</li>
+          <li>• <strong>Nonce Derivation Check:</strong> Tests each signature for nonces taken from the key or message (k = d, k = z, k = SHA256(z), k = SHA256(SHA256(z))) and reports each mistake separately; k = d XOR z and k = H(d || z) cannot be tested from one signature and are listed as not tested</li>
+          <li>• <strong>Segwit Support:</strong> Extracts witness signatures and computes BIP143 sighashes from the spent amounts</li>
+          <li>• <strong>Taproot Support:</strong> Parses BIP340 Schnorr signatures, computes BIP341 sighashes and recovers keys from reused nonces</li>
           <li>• <strong>Signature Malleability:</strong> Checks for malleable signature formats</li>
           <li>• <strong>Low-S Enforcement:</strong> Verifies BIP 146 compliance</li>
-          <li>• <strong>Batch Processing:</strong> Analyze thousands of transactions efficiently</li>
+          <li>• <strong>Batch Processing:</strong> Analyze thousands of transactions efficiently; the per-key checks (duplicate, related, polynonce and biased nonces) run over every signature of the batch, ordered by block height</li>
+          <li>• <strong>Chain Backends:</strong> Fetches transactions and their spent outputs from a fixture or a Bitcoin Core node</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,324 @@
+import React, { useRef, useState } from 'react';
+import { Database, Play, Square, Upload, Download, Save, FolderOpen } from 'lucide-react';
+import { AnalysisResult } from '../types/bitcoin';
+import { ChainDataProvider } from '../types/chain';
+import { RIndexCheckpoint, RIndexProgress, RValueIndexBuilder } from '../utils/rValueIndex';
+import { bytesToHex, hexToBytes } from '../utils/hash';
+
+interface Props {
+  onAnalysisComplete: (results: AnalysisResult[]) => void;
+  provider?: ChainDataProvider | null;
+}
+
+// Raw block files may hold hex (getblock <hash> 0) or the binary block itself
+const readBlockFile = (bytes: Uint8Array): string => {
+  const text = new TextDecoder().decode(bytes);
+  return /^[0-9a-fA-F\s]+$/.test(text) ? text : bytesToHex(bytes);
+};
+
+const isBlkFile = (name: string) => /^blk\d+\.dat$/i.test(name);
+
+const formatRanges = (ranges: [number, number][]) => {
+  if (ranges.length === 0) return 'none';
+  return ranges.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`)).join(', ');
+};
+
+const download = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const DupeIndexBuilder: React.FC<Props> = ({ onAnalysisComplete, provider }) => {
+  const [startHeight, setStartHeight] = useState('');
+  const [endHeight, setEndHeight] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState<RIndexProgress | null>(null);
+  const [summary, setSummary] = useState({ ranges: [] as [number, number][], signatures: 0, duplicates: 0 });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [xorKey, setXorKey] = useState('');
+
+  const builderRef = useRef(new RValueIndexBuilder());
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const refreshSummary = () => {
+    const builder = builderRef.current;
+    setSummary({
+      ranges: builder.scannedRanges,
+      signatures: builder.signatureCount,
+      duplicates: builder.duplicateCount
+    });
+  };
+
+  const reportIndex = (source: string) => {
+    const builder = builderRef.current;
+    onAnalysisComplete([{
+      type: 'duplicate',
+      timestamp: Date.now(),
+      data: { ranges: builder.scannedRanges, signatures: builder.signatureCount, duplicates: builder.duplicateCount },
+      message: `Indexed ${builder.signatureCount} signatures from ${source}; ${builder.duplicateCount} r values appear more than once`
+    }]);
+  };
+
+  const handleScan = async () => {
+    if (!provider) return;
+    const start = parseInt(startHeight, 10);
+    const end = parseInt(endHeight, 10);
+
+    setIsScanning(true);
+    setErrors([]);
+    abortControllerRef.current = new AbortController();
+
+    try {
+      await builderRef.current.scanProvider(provider, start, end, {
+        signal: abortControllerRef.current.signal,
+        onProgress: next => {
+          setProgress(next);
+          refreshSummary();
+        }
+      });
+      reportIndex(`heights ${start}-${end}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Scan failed';
+      setErrors([message]);
+      onAnalysisComplete([{
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: message },
+        message: `Index scan stopped: ${message}. Save a checkpoint to resume later.`
+      }]);
+    } finally {
+      refreshSummary();
+      setIsScanning(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleBlockFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    // xor.dat selected alongside the blk*.dat files supplies the key
+    const xorFile = files.find(file => file.name.toLowerCase() === 'xor.dat');
+    let key = xorKey.trim();
+    if (xorFile) {
+      key = bytesToHex(new Uint8Array(await xorFile.arrayBuffer()));
+      setXorKey(key);
+    }
+
+    const blockFiles = files.filter(candidate => candidate !== xorFile);
+    const failures: string[] = [];
+    for (const file of blockFiles) {
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        if (isBlkFile(file.name)) {
+          const { unplaced } = builderRef.current.addBlkFile(bytes, key ? hexToBytes(key) : undefined);
+          if (unplaced.length > 0) {
+            failures.push(`${file.name}: no height for ${unplaced.length} block${unplaced.length === 1 ? '' : 's'}; add the files holding their ancestors first`);
+          }
+        } else {
+          builderRef.current.addRawBlock(readBlockFile(bytes));
+        }
+      } catch (error) {
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : 'unreadable block'}`);
+      }
+    }
+
+    setErrors(failures);
+    refreshSummary();
+    reportIndex(`${blockFiles.length} block file${blockFiles.length === 1 ? '' : 's'}`);
+  };
+
+  const handleLoadCheckpoint = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      builderRef.current = new RValueIndexBuilder(JSON.parse(await file.text()) as RIndexCheckpoint);
+      setErrors([]);
+      setProgress(null);
+      refreshSummary();
+    } catch (error) {
+      setErrors([`${file.name}: ${error instanceof Error ? error.message : 'invalid checkpoint'}`]);
+    }
+  };
+
+  const handleSaveCheckpoint = () => {
+    download(JSON.stringify(builderRef.current.toCheckpoint()), `rindex-checkpoint-${Date.now()}.json`, 'application/json');
+  };
+
+  const handleDownloadDupe = () => {
+    download(builderRef.current.toDupeFile(), 'rrr.dupe', 'text/plain');
+  };
+
+  const canScan = provider && /^\d+$/.test(startHeight) && /^\d+$/.test(endHeight);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white mb-2">R-Value Index Builder</h2>
+        <p className="text-gray-300">
+          Scan blocks for ECDSA signatures and write the rrr.dupe index of repeated r values that the duplicate nonce detector and pivot recovery start from.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Start Height
+          </label>
+          <input
+            type="text"
+            value={startHeight}
+            onChange={(e) => setStartHeight(e.target.value.trim())}
+            placeholder="0"
+            className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            End Height
+          </label>
+          <input
+            type="text"
+            value={endHeight}
+            onChange={(e) => setEndHeight(e.target.value.trim())}
+            placeholder="100000"
+            className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      {isScanning ? (
+        <button
+          onClick={handleStop}
+          className="w-full flex items-center justify-center px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          <Square className="w-5 h-5 mr-2" />
+          Stop Scan
+        </button>
+      ) : (
+        <button
+          onClick={handleScan}
+          disabled={!canScan}
+          className="w-full flex items-center justify-center px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          <Play className="w-5 h-5 mr-2" />
+          {provider ? 'Scan Height Range' : 'Select a chain data backend to scan'}
+        </button>
+      )}
+
+      {progress && (
+        <div className="bg-slate-700/30 rounded-lg p-4">
+          <div className="w-full bg-slate-600 rounded-full h-2 mb-2">
+            <div
+              className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(progress.scannedBlocks / progress.totalBlocks) * 100}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-300">
+            Height {progress.height}: {progress.scannedBlocks} of {progress.totalBlocks} blocks
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Block File XOR Key (optional)
+        </label>
+        <input
+          type="text"
+          value={xorKey}
+          onChange={(e) => setXorKey(e.target.value.trim())}
+          placeholder="hex of blocks/xor.dat, or select xor.dat with the blk*.dat files"
+          className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <label className="flex items-center px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-gray-300 hover:bg-slate-700 cursor-pointer transition-colors duration-200 text-sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Add Block Files
+          <input type="file" multiple onChange={handleBlockFiles} className="hidden" />
+        </label>
+        <label className="flex items-center px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-gray-300 hover:bg-slate-700 cursor-pointer transition-colors duration-200 text-sm">
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Load Checkpoint
+          <input type="file" accept=".json" onChange={handleLoadCheckpoint} className="hidden" />
+        </label>
+        <button
+          onClick={handleSaveCheckpoint}
+          disabled={isScanning || summary.ranges.length === 0}
+          className="flex items-center px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-gray-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 text-sm"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save Checkpoint
+        </button>
+        <button
+          onClick={handleDownloadDupe}
+          disabled={isScanning || summary.duplicates === 0}
+          className="flex items-center px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-gray-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 text-sm"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download rrr.dupe
+        </button>
+      </div>
+
+      <div className="bg-slate-700/30 rounded-lg p-4">
+        <div className="flex items-center mb-3">
+          <Database className="w-5 h-5 text-purple-400 mr-2" />
+          <h3 className="text-lg font-semibold text-white">Index</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <span className="text-gray-400">Signatures:</span>
+            <span className="text-white ml-2">{summary.signatures}</span>
+          </div>
+          <div>
+            <span className="text-gray-400">Repeated r values:</span>
+            <span className="text-white ml-2">{summary.duplicates}</span>
+          </div>
+          <div className="col-span-2">
+            <span className="text-gray-400">Scanned heights:</span>
+            <span className="text-white ml-2 font-mono">{formatRanges(summary.ranges)}</span>
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-900/20 border border-red-700/50 rounded-lg p-4">
+          <ul className="text-red-300 text-sm space-y-1">
+            {errors.map((error, index) => (
+              <li key={index} className="font-mono">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-slate-700/30 rounded-lg p-4">
+        <h3 className="text-lg font-semibold text-white mb-2">Pipeline</h3>
+        <ul className="text-sm text-gray-300 space-y-1">
+          <li>• Every ECDSA input that reveals its key is indexed as height, txid, input, r, x and ysign</li>
+          <li>• Block files are raw block hex or binary, or blk*.dat from a datadir copy; every merkle root is checked</li>
+          <li>• Heights come from previous-block links back to a known block, or from the BIP34 coinbase</li>
+          <li>• Checkpoints keep the scanned ranges, so a stopped scan resumes without refetching</li>
+          <li>• Load the downloaded rrr.dupe in Duplicate Nonce Detection to pivot</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default DupeIndexBuilder;
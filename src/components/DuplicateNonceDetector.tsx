@@ -1,16 +1,32 @@
 import React, { useState } from 'react';
-import { AlertTriangle, Upload, Loader2 } from 'lucide-react';
+import { AlertTriangle, Upload, Loader2, GitBranch, Sigma } from 'lucide-react';
 import { AnalysisResult, ECDSASignature } from '../types/bitcoin';
-import { findDuplicateNonces } from '../utils/bitcoinAnalysis';
+import { analyzeTransaction, attachRecoveredPublicKeys, findDuplicateNonces } from '../utils/bitcoinAnalysis';
+import { runPivotRecovery, formatPivotRecord } from '../utils/pivotRecovery';
+import { hasNonceEquation, solveSharedNonces } from '../utils/nonceSystem';
+import { DupeParseError, parseDupeFile } from '../utils/dupeFile';
+import { ChainDataProvider } from '../types/chain';
 
 interface Props {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
+  provider?: ChainDataProvider | null;
 }
 
-const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
+const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete, provider }) => {
   const [signatures, setSignatures] = useState<ECDSASignature[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPivoting, setIsPivoting] = useState(false);
+  const [isSolving, setIsSolving] = useState(false);
   const [fileContent, setFileContent] = useState('');
+  const [parseErrors, setParseErrors] = useState<DupeParseError[]>([]);
+
+  // .dupe entries only carry r and x; pull s and z from the chain backend like pivot.py
+  const resolveSignature = provider
+    ? async (sig: ECDSASignature) => ({
+        ...(await analyzeTransaction(sig.txid, sig.inputIndex, undefined, undefined, provider)),
+        height: sig.height
+      })
+    : undefined;
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -27,26 +43,28 @@ const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
 
   const parseSignatureData = (content: string) => {
     try {
-      const lines = content.split('\n').filter(line => line.trim());
-      const parsedSignatures: ECDSASignature[] = [];
-
-      for (const line of lines) {
-        const parts = line.trim().split(' ');
-        if (parts.length >= 6) {
-          const [height, txid, i, r, x, ysign] = parts;
-          parsedSignatures.push({
-            txid,
-            inputIndex: parseInt(i),
-            r,
-            s: '', // Will be filled when analyzing actual transactions
-            z: '', // Will be filled when analyzing actual transactions
-            publicKey: '',
-            x
-          });
-        }
+      // JSON exports carry full r/s/z (and optionally v) per signature
+      if (content.trim().startsWith('[')) {
+        const parsed = JSON.parse(content) as ECDSASignature[];
+        setSignatures(parsed.map(sig => ({ ...sig, publicKey: sig.publicKey || '', x: sig.x || '' })));
+        setParseErrors([]);
+        return;
       }
 
-      setSignatures(parsedSignatures);
+      const parsed = parseDupeFile(content);
+      setSignatures(parsed.signatures);
+      setParseErrors(parsed.errors);
+
+      if (parsed.errors.length > 0) {
+        onAnalysisComplete([{
+          type: 'error',
+          timestamp: Date.now(),
+          data: { errors: parsed.errors },
+          message: `Skipped ${parsed.errors.length} malformed line${parsed.errors.length === 1 ? '' : 's'}: ` +
+            parsed.errors.slice(0, 3).map(error => `line ${error.line} (${error.message})`).join(', ') +
+            (parsed.errors.length > 3 ? ', ...' : '')
+        }]);
+      }
     } catch (error) {
       console.error('Error parsing signature data:', error);
     }
@@ -60,13 +78,24 @@ const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
     setIsProcessing(true);
 
     try {
-      const duplicates = findDuplicateNonces(signatures);
-      
+      const recovery = attachRecoveredPublicKeys(signatures);
+      setSignatures(recovery.signatures);
+      const duplicates = findDuplicateNonces(recovery.signatures);
+
+      const sameOwnerGroups = duplicates.filter(group => group.sameOwnerPairs.length > 0).length;
+
       onAnalysisComplete([{
         type: 'duplicate',
         timestamp: Date.now(),
-        data: { duplicates, count: duplicates.length },
-        message: `Found ${duplicates.length} duplicate nonce groups`
+        data: {
+          duplicates,
+          count: duplicates.length,
+          sameOwnerGroups,
+          recoveredPublicKeys: recovery.recovered,
+          unresolvedPublicKeys: recovery.unresolved
+        },
+        message: `Found ${duplicates.length} duplicate nonce groups, ${sameOwnerGroups} with same-owner pairs` +
+          (recovery.recovered > 0 ? ` (${recovery.recovered} public keys recovered from signatures)` : '')
       }]);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Detection failed';
@@ -81,6 +110,128 @@ const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
     }
   };
 
+  const handlePivotRecovery = async () => {
+    if (signatures.length === 0) {
+      return;
+    }
+
+    setIsPivoting(true);
+
+    try {
+      const recovery = attachRecoveredPublicKeys(signatures);
+      setSignatures(recovery.signatures);
+      const pivot = await runPivotRecovery(recovery.signatures, { resolveSignature });
+      const recovered = pivot.records.filter(record => record.kind === 'x');
+
+      const results: AnalysisResult[] = recovered.map(record => ({
+        type: 'recovery',
+        timestamp: Date.now(),
+        data: { ...record, privateKey: record.value, line: formatPivotRecord(record) },
+        message: `Pivot pass ${record.pass}: recovered private key for x ${record.key.substring(0, 8)}...`
+      }));
+
+      if (recovered.length === 0) {
+        results.push({
+          type: 'error',
+          timestamp: Date.now(),
+          data: { error: pivot.errors.length > 0 ? pivot.errors.join('\n') : 'No recoverable duplicate nonces' },
+          message: `Pivot recovery found no private keys after ${pivot.passes} passes`
+        });
+      }
+
+      onAnalysisComplete(results);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Pivot recovery failed';
+      onAnalysisComplete([{
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: errorMessage },
+        message: `Pivot recovery failed: ${errorMessage}`
+      }]);
+    } finally {
+      setIsPivoting(false);
+    }
+  };
+
+  const handleSolveSystems = async () => {
+    if (signatures.length === 0) {
+      return;
+    }
+
+    setIsSolving(true);
+
+    try {
+      const recovery = attachRecoveredPublicKeys(signatures);
+      setSignatures(recovery.signatures);
+      const complete = await Promise.all(recovery.signatures.map(sig => {
+        return (sig.s && sig.z) || !resolveSignature ? sig : resolveSignature(sig);
+      }));
+      const systems = solveSharedNonces(complete);
+
+      const results: AnalysisResult[] = systems.map(system => {
+        if (system.error) {
+          return {
+            type: 'error',
+            timestamp: Date.now(),
+            data: system,
+            message: `Shared-nonce system of ${system.equations} signatures left unsolved: ${system.error}`
+          };
+        }
+        const determined = system.unknowns.filter(unknown => unknown.determined).length;
+        return {
+          type: system.verified ? 'recovery' : 'duplicate',
+          timestamp: Date.now(),
+          data: system,
+          message: `Shared-nonce system of ${system.equations} signatures: ${determined} of ${system.unknowns.length} unknowns ` +
+            `determined (rank ${system.rank})` + (system.consistent ? '' : ', no consistent nonce signs') +
+            (system.skipped?.length ? `; ${system.skipped.length} signature(s) with the same r skipped for lack of s, z or a key` : '')
+        };
+      });
+
+      const incomplete = complete.filter(sig => !hasNonceEquation(sig));
+      if (incomplete.length > 0) {
+        results.push({
+          type: 'error',
+          timestamp: Date.now(),
+          data: { skipped: incomplete },
+          message: `${incomplete.length} signature(s) skipped by the shared-nonce solver: s, z and the signer's key are needed for an equation ` +
+            `(${incomplete.map(sig => `${sig.txid.substring(0, 8)}...:${sig.inputIndex}` + (sig.zError ? ` - ${sig.zError}` : '')).join(', ')})`
+        });
+      }
+
+      systems.forEach(system => system.unknowns.forEach(unknown => {
+        if (unknown.kind !== 'x' || !unknown.value) return;
+        results.push({
+          type: 'recovery',
+          timestamp: Date.now(),
+          data: { x: unknown.key, privateKey: unknown.value },
+          message: `Shared-nonce system recovered the private key for x ${unknown.key.substring(0, 8)}...`
+        });
+      }));
+
+      if (systems.length === 0) {
+        results.push({
+          type: 'error',
+          timestamp: Date.now(),
+          data: { error: 'No r value is shared between signatures' },
+          message: 'No shared-nonce systems to solve'
+        });
+      }
+
+      onAnalysisComplete(results);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Solving failed';
+      onAnalysisComplete([{
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: errorMessage },
+        message: `Shared-nonce solver failed: ${errorMessage}`
+      }]);
+    } finally {
+      setIsSolving(false);
+    }
+  };
+
   const addManualSignature = () => {
     const newSig: ECDSASignature = {
       txid: '',
@@ -125,18 +276,31 @@ const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
                 <p className="mb-2 text-sm text-gray-400">
                   <span className="font-semibold">Click to upload</span> signature data
                 </p>
-                <p className="text-xs text-gray-500">Format: height txid input_index r x y_sign</p>
+                <p className="text-xs text-gray-500">Format: height txid input_index r x y_sign, or a JSON signature list</p>
               </div>
               <input
                 type="file"
                 className="hidden"
-                accept=".txt,.dupe"
+                accept=".txt,.dupe,.json"
                 onChange={handleFileUpload}
               />
             </label>
           </div>
         </div>
 
+        {parseErrors.length > 0 && (
+          <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 max-h-32 overflow-y-auto">
+            <p className="text-red-300 text-sm font-medium mb-1">
+              {parseErrors.length} malformed line{parseErrors.length === 1 ? '' : 's'} skipped
+            </p>
+            {parseErrors.slice(0, 10).map(error => (
+              <p key={error.line} className="text-red-200 text-xs font-mono">
+                Line {error.line}: {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+
         {signatures.length > 0 && (
           <div>
             <div className="flex items-center justify-between mb-4">
@@ -167,6 +331,20 @@ const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
                         {sig.r.substring(0, 16)}...
                       </span>
                     </div>
+                    {sig.height !== undefined && (
+                      <div>
+                        <span className="text-gray-400">Height:</span>
+                        <span className="text-white ml-2 font-mono">{sig.height}</span>
+                      </div>
+                    )}
+                    {sig.publicKey && (
+                      <div>
+                        <span className="text-gray-400">Key:</span>
+                        <span className="text-white ml-2 font-mono">
+                          {sig.publicKey.substring(0, 16)}...
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -196,15 +374,56 @@ const DuplicateNonceDetector: React.FC<Props> = ({ onAnalysisComplete }) => {
             </>
           )}
         </button>
+
+        <button
+          onClick={handlePivotRecovery}
+          disabled={isPivoting || signatures.length === 0}
+          className="w-full flex items-center justify-center px-6 py-3 bg-red-600 hover:bg-red-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          {isPivoting ? (
+            <>
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Pivoting...
+            </>
+          ) : (
+            <>
+              <GitBranch className="w-5 h-5 mr-2" />
+              Run Pivot Recovery
+            </>
+          )}
+        </button>
+
+        <button
+          onClick={handleSolveSystems}
+          disabled={isSolving || signatures.length === 0}
+          className="w-full flex items-center justify-center px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          {isSolving ? (
+            <>
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Solving...
+            </>
+          ) : (
+            <>
+              <Sigma className="w-5 h-5 mr-2" />
+              Solve Cross-Key Nonce Systems
+            </>
+          )}
+        </button>
       </div>
 
       <div className="bg-slate-700/30 rounded-lg p-4">
         <h3 className="text-lg font-semibold text-white mb-2">Detection Process</h3>
         <ul className="text-gray-300 text-sm space-y-1">
+          <li>• Recovers missing public keys from (r, s, z), using v or a known x to pick the candidate</li>
           <li>• Groups signatures by their r-value (nonce commitment)</li>
           <li>• Identifies signatures with identical r-values but different messages</li>
+          <li>• Marks same-owner pairs (identical x), which leak the key without a pivot</li>
           <li>• Flags potential private key recovery opportunities</li>
           <li>• Prepares data for the recovery algorithm</li>
+          <li>• Pivots recovered nonces and keys across shared r and x values until nothing new is found</li>
+          <li>• Fetches s and z for .dupe entries from the selected chain data backend</li>
+          <li>• Solves s·k − r·d = z (mod n) across keys that share nonces, trying each nonce sign, and reports which keys and nonces the equations determine</li>
         </ul>
       </div>
     </div>
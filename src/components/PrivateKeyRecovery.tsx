@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { Key, Loader2, AlertCircle, Copy } from 'lucide-react';
-import { AnalysisResult } from '../types/bitcoin';
+import { Key, Loader2, AlertCircle, Copy, Upload, Activity } from 'lucide-react';
+import { AnalysisResult, ECDSASignature, PrivateKeyResult } from '../types/bitcoin';
+import { NonceLeak } from '../types/leakage';
 import { recoverPrivateKey, formatPrivateKey } from '../utils/bitcoinAnalysis';
+import { runPivotRecovery, formatPivotRecord, normalizeR } from '../utils/pivotRecovery';
+import { describeLeakageModel, formatLeakageModel, parseLeakageFile, recoverFromLeakage } from '../utils/nonceLeakage';
 
 interface Props {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
@@ -26,7 +29,11 @@ const PrivateKeyRecovery: React.FC<Props> = ({ onAnalysisComplete }) => {
     publicKey: ''
   });
   const [isRecovering, setIsRecovering] = useState(false);
-  const [recoveredKey, setRecoveredKey] = useState('');
+  const [recovery, setRecovery] = useState<PrivateKeyResult | null>(null);
+  const [pivotSignatures, setPivotSignatures] = useState<ECDSASignature[]>([]);
+  const [leaks, setLeaks] = useState<NonceLeak[]>([]);
+  const [leakageBlockSize, setLeakageBlockSize] = useState(10);
+  const [isSolvingLeakage, setIsSolvingLeakage] = useState(false);
 
   const handleInputChange = (field: keyof SignaturePair, value: string) => {
     setSignaturePair(prev => ({ ...prev, [field]: value }));
@@ -46,37 +53,141 @@ const PrivateKeyRecovery: React.FC<Props> = ({ onAnalysisComplete }) => {
     }
 
     setIsRecovering(true);
-    setRecoveredKey('');
+    setRecovery(null);
 
     try {
       const result = recoverPrivateKey(r, s1, s2, z1, z2, publicKey);
-      
-      if (result) {
-        setRecoveredKey(result.privateKey);
+      setRecovery(result);
+      onAnalysisComplete([{
+        type: 'recovery',
+        timestamp: Date.now(),
+        data: result,
+        message: `Recovered private key matching the ${result.encoding} public key (${result.signCombination})`
+      }]);
+
+      if (pivotSignatures.length > 0) {
+        await pivotFromRecoveredKey(result);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Recovery failed';
+      onAnalysisComplete([{
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: errorMessage },
+        message: `Private key recovery failed: ${errorMessage}`
+      }]);
+    } finally {
+      setIsRecovering(false);
+    }
+  };
+
+  // Seed the pivot engine with the recovered key and nonce, then propagate them
+  // through the uploaded signature set
+  const pivotFromRecoveredKey = async (result: PrivateKeyResult) => {
+    const r = normalizeR(signaturePair.r);
+    const x = result.encoding === 'x' ? result.publicKey : result.publicKey.slice(2, 66);
+
+    const pivot = await runPivotRecovery(pivotSignatures, {
+      seeds: {
+        privateKeys: { [x]: result.privateKey },
+        nonces: { [r]: result.nonce! }
+      }
+    });
+
+    onAnalysisComplete(pivot.records
+      .filter(record => record.kind === 'x')
+      .map(record => ({
+        type: 'recovery' as const,
+        timestamp: Date.now(),
+        data: { ...record, privateKey: record.value, line: formatPivotRecord(record) },
+        message: `Pivot pass ${record.pass}: recovered private key for x ${record.key.substring(0, 8)}...`
+      })));
+  };
+
+  const handlePivotFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const parsed = JSON.parse(e.target?.result as string);
+        setPivotSignatures(Array.isArray(parsed) ? parsed : []);
+      } catch (error) {
         onAnalysisComplete([{
-          type: 'recovery',
+          type: 'error',
           timestamp: Date.now(),
-          data: result,
-          message: `Successfully recovered private key`
+          data: { error: 'Invalid signature set' },
+          message: 'Pivot signature set must be a JSON array of signatures'
         }]);
-      } else {
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleLeakageFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const { leaks: parsed, errors } = parseLeakageFile(e.target?.result as string);
+      setLeaks(parsed);
+      if (errors.length > 0) {
+        onAnalysisComplete(errors.map(error => ({
+          type: 'error' as const,
+          timestamp: Date.now(),
+          data: { error: error.message, line: error.line, text: error.text },
+          message: `Leakage file line ${error.line}: ${error.message}`
+        })));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // The lattice reduction blocks the page, so let the spinner render first
+  const handleLeakageRecovery = async () => {
+    if (leaks.length === 0) return;
+
+    setIsSolvingLeakage(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    try {
+      const recoveries = recoverFromLeakage(leaks, { blockSize: leakageBlockSize });
+      if (recoveries.length === 0) {
         onAnalysisComplete([{
           type: 'error',
           timestamp: Date.now(),
-          data: { error: 'Recovery failed' },
-          message: 'Could not recover private key from provided signatures'
+          data: { error: 'No key recovered', model: formatLeakageModel(describeLeakageModel(leaks)) },
+          message: `Partial nonce leakage: no key recovered from ${leaks.length} signatures; more signatures or more known bits are needed`
         }]);
+        return;
       }
+
+      onAnalysisComplete(recoveries.map(recovery => ({
+        type: 'recovery' as const,
+        timestamp: Date.now(),
+        data: {
+          privateKey: recovery.privateKey,
+          publicKey: recovery.publicKey,
+          nonce: recovery.nonce,
+          signaturesUsed: recovery.signaturesUsed,
+          reduction: recovery.reduction,
+          leakageModel: recovery.model,
+          leakage: formatLeakageModel(recovery.model)
+        },
+        message: `Recovered private key for ${recovery.publicKey.substring(0, 16)}... from partial nonce leakage (${recovery.signaturesUsed} signatures, ${recovery.reduction})`
+      })));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Recovery failed';
+      const errorMessage = error instanceof Error ? error.message : 'Leakage recovery failed';
       onAnalysisComplete([{
         type: 'error',
         timestamp: Date.now(),
         data: { error: errorMessage },
-        message: `Private key recovery failed: ${errorMessage}`
+        message: `Partial nonce leakage recovery failed: ${errorMessage}`
       }]);
     } finally {
-      setIsRecovering(false);
+      setIsSolvingLeakage(false);
     }
   };
 
@@ -89,9 +200,9 @@ const PrivateKeyRecovery: React.FC<Props> = ({ onAnalysisComplete }) => {
       r: '00d47ce4c025c35ec440bc81d99834a624875161a26bf56ef7fdc0f5d52f843ad1',
       s1: '44e1ff2dfd8102cf7a47c21d5c9fd5701610d04953c6836596b4fe9dd2f53e3e',
       s2: '9a5f1c75e461d7ceb1cf3cab9013eb2dc85b6d0da8c3c6e27e3a5a5b3faa5bab',
-      z1: '4f434e415354455220524f434b532121',
-      z2: '4f434e4153544552204c4f434b532121',
-      publicKey: '04d0de0aaeaefad02b8bdc8a01a1b8b11c696bd3d66a2c5f10780d95b7df42645cd85228a6fb29940e858e7e55842ae2bd115d1ed7cc0e82d934e929c97648cb0a'
+      z1: 'c0e2d0a89a348de88fda08211c70d1d7e52ccef2eb9459911bf977d587784c6e',
+      z2: '17b0f41c8c337ac1e18c98759e83a8cccbc368dd9d89e5f03cb633c265fd0ddc',
+      publicKey: '04dbd0c61532279cf72981c3584fc32216e0127699635c2789f549e0730c059b81ae133016a69c21e23f1859a95f06d52b7bf149a8f2fe4e8535c8a829b449c5ff'
     });
   };
 
@@ -192,12 +303,30 @@ const PrivateKeyRecovery: React.FC<Props> = ({ onAnalysisComplete }) => {
           </div>
         </div>
 
-        {recoveredKey && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Pivot Signature Set (optional)
+          </label>
+          <label className="flex items-center justify-center w-full px-4 py-3 bg-slate-700/50 border border-slate-600 border-dashed rounded-lg text-gray-300 hover:bg-slate-700 cursor-pointer transition-colors duration-200">
+            <Upload className="w-5 h-5 mr-2" />
+            {pivotSignatures.length > 0
+              ? `${pivotSignatures.length} signatures loaded for pivoting`
+              : 'Upload JSON signatures to pivot the recovered key through'}
+            <input
+              type="file"
+              className="hidden"
+              accept=".json"
+              onChange={handlePivotFileUpload}
+            />
+          </label>
+        </div>
+
+        {recovery && (
           <div className="bg-green-900/20 border border-green-700/50 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-green-400 font-semibold">Recovered Private Key</h3>
               <button
-                onClick={() => copyToClipboard(recoveredKey)}
+                onClick={() => copyToClipboard(recovery.privateKey)}
                 className="flex items-center px-3 py-1 bg-green-700/50 hover:bg-green-700 text-green-300 rounded text-sm transition-colors duration-200"
               >
                 <Copy className="w-4 h-4 mr-1" />
@@ -207,18 +336,28 @@ const PrivateKeyRecovery: React.FC<Props> = ({ onAnalysisComplete }) => {
             <div className="space-y-3">
               <div className="bg-slate-800/50 rounded p-3">
                 <div className="text-xs text-gray-400 mb-1">Hex Format:</div>
-                <div className="font-mono text-sm text-green-300 break-all">{recoveredKey}</div>
+                <div className="font-mono text-sm text-green-300 break-all">{recovery.privateKey}</div>
+              </div>
+              <div className="bg-slate-800/50 rounded p-3">
+                <div className="text-xs text-gray-400 mb-1">Verified Against:</div>
+                <div className="text-sm text-green-300">
+                  {recovery.encoding} public key, s signs {recovery.signCombination}
+                </div>
+              </div>
+              <div className="bg-slate-800/50 rounded p-3">
+                <div className="text-xs text-gray-400 mb-1">Nonce (k):</div>
+                <div className="font-mono text-sm text-green-300 break-all">{recovery.nonce}</div>
               </div>
               <div className="bg-slate-800/50 rounded p-3">
                 <div className="text-xs text-gray-400 mb-1">WIF (Uncompressed):</div>
                 <div className="font-mono text-sm text-green-300 break-all">
-                  {formatPrivateKey(recoveredKey).wif}
+                  {formatPrivateKey(recovery.privateKey).wif}
                 </div>
               </div>
               <div className="bg-slate-800/50 rounded p-3">
                 <div className="text-xs text-gray-400 mb-1">WIF (Compressed):</div>
                 <div className="font-mono text-sm text-green-300 break-all">
-                  {formatPrivateKey(recoveredKey).wifCompressed}
+                  {formatPrivateKey(recovery.privateKey).wifCompressed}
                 </div>
               </div>
             </div>
@@ -244,13 +383,72 @@ const PrivateKeyRecovery: React.FC<Props> = ({ onAnalysisComplete }) => {
         </button>
       </div>
 
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Partial Nonce Leakage</h3>
+          <p className="text-gray-300 text-sm">
+            Recover keys from side-channel traces that leak a few bits of each nonce.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="md:col-span-2 flex items-center justify-center w-full px-4 py-3 bg-slate-700/50 border border-slate-600 border-dashed rounded-lg text-gray-300 hover:bg-slate-700 cursor-pointer transition-colors duration-200">
+            <Upload className="w-5 h-5 mr-2" />
+            {leaks.length > 0
+              ? `${leaks.length} signatures loaded (${formatLeakageModel(describeLeakageModel(leaks))})`
+              : 'Upload a leakage file: r s z publicKey known-bits...'}
+            <input
+              type="file"
+              className="hidden"
+              accept=".txt,.leak"
+              onChange={handleLeakageFileUpload}
+            />
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              BKZ Block Size (0 = LLL only)
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              value={leakageBlockSize}
+              onChange={(e) => setLeakageBlockSize(Math.min(30, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+              className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={handleLeakageRecovery}
+          disabled={isSolvingLeakage || leaks.length === 0}
+          className="w-full flex items-center justify-center px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          {isSolvingLeakage ? (
+            <>
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Reducing Lattice...
+            </>
+          ) : (
+            <>
+              <Activity className="w-5 h-5 mr-2" />
+              Recover From Leaked Nonce Bits
+            </>
+          )}
+        </button>
+      </div>
+
       <div className="bg-slate-700/30 rounded-lg p-4">
         <h3 className="text-lg font-semibold text-white mb-2">Recovery Algorithm</h3>
         <ul className="text-gray-300 text-sm space-y-1">
           <li>• Uses the formula: k = (z1 - z2) / (s1 - s2) mod n</li>
           <li>• Recovers private key: d = (s1 * k - z1) / r mod n</li>
-          <li>• Verifies the recovered key matches the public key</li>
+          <li>• Tries every s sign combination, since low-s normalization may have negated either signature</li>
+          <li>• Accepts the key only when it reproduces the compressed or uncompressed public key</li>
           <li>• Works only when the same nonce k is used for different messages</li>
+          <li>• Optionally pivots the recovered key and nonce through a larger signature set</li>
+          <li>• Leakage files list r, s, z and the public key per line, then known nonce bits as hi-lo=binary or pos=bit, e.g. 255-248=10110001 (bit 0 is the least significant)</li>
+          <li>• Known bits turn each signature into a Hidden Number Problem sample; LLL, then BKZ, reduces the lattice and the key is checked against the public key</li>
         </ul>
       </div>
 
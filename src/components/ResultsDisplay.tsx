@@ -81,6 +81,12 @@ const ResultsDisplay: React.FC<Props> = ({ results, onClear }) => {
                 {result.data.privateKey?.substring(0, 32)}...
               </div>
             </div>
+            {result.data.leakage && (
+              <div>
+                <span className="text-gray-400">Leakage Model:</span>
+                <div className="text-xs text-white">{result.data.leakage}</div>
+              </div>
+            )}
           </div>
         );
       
@@ -2,20 +2,24 @@ import React, { useState } from 'react';
 import { Search, Loader2, AlertCircle } from 'lucide-react';
 import { AnalysisResult } from '../types/bitcoin';
 import { analyzeTransaction } from '../utils/bitcoinAnalysis';
+import { ChainDataProvider } from '../types/chain';
 
 interface Props {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
+  provider?: ChainDataProvider | null;
 }
 
-const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
-  const [txid, setTxid] = useState('');
+const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete, provider }) => {
+  const [rawTx, setRawTx] = useState('');
   const [inputIndex, setInputIndex] = useState(0);
+  const [prevScriptPubKey, setPrevScriptPubKey] = useState('');
+  const [prevValue, setPrevValue] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState('');
 
   const handleAnalyze = async () => {
-    if (!txid.trim()) {
-      setError('Please enter a transaction ID');
+    if (!rawTx.trim()) {
+      setError(provider ? 'Please paste a raw transaction or txid' : 'Please paste a raw transaction');
       return;
     }
 
@@ -23,12 +27,19 @@ const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
     setError('');
 
     try {
-      const result = await analyzeTransaction(txid.trim(), inputIndex);
+      const result = await analyzeTransaction(
+        rawTx.trim(),
+        inputIndex,
+        prevScriptPubKey,
+        prevValue.trim() ? parseInt(prevValue, 10) : undefined,
+        provider
+      );
       onAnalysisComplete([{
         type: 'signature',
         timestamp: Date.now(),
         data: result,
-        message: `Analyzed transaction ${txid.substring(0, 8)}... input ${inputIndex}`
+        message: `Analyzed transaction ${result.txid.substring(0, 8)}... input ${inputIndex}` +
+          (result.zError ? `; z not computed: ${result.zError}` : '')
       }]);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Analysis failed';
@@ -56,14 +67,14 @@ const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
       <div className="space-y-4">
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
-            Transaction ID (TXID)
+            {provider ? 'Raw Transaction (hex) or TXID' : 'Raw Transaction (hex)'}
           </label>
-          <input
-            type="text"
-            value={txid}
-            onChange={(e) => setTxid(e.target.value)}
-            placeholder="Enter Bitcoin transaction ID..."
-            className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          <textarea
+            value={rawTx}
+            onChange={(e) => setRawTx(e.target.value)}
+            placeholder={provider ? 'Paste the raw transaction hex or a txid to fetch from the chain backend...' : 'Paste the raw transaction hex...'}
+            rows={4}
+            className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono text-sm"
           />
         </div>
 
@@ -80,6 +91,33 @@ const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Spent Output scriptPubKey (optional)
+          </label>
+          <input
+            type="text"
+            value={prevScriptPubKey}
+            onChange={(e) => setPrevScriptPubKey(e.target.value)}
+            placeholder={provider ? 'Fetched from the chain backend if empty...' : 'Hex script of the output being spent (P2PKH is assumed if empty)...'}
+            className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono text-sm"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Spent Output Value in Satoshis (segwit inputs)
+          </label>
+          <input
+            type="number"
+            value={prevValue}
+            onChange={(e) => setPrevValue(e.target.value)}
+            min="0"
+            placeholder={provider ? 'Fetched from the chain backend if empty...' : 'Required for the BIP143 sighash of segwit inputs...'}
+            className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        </div>
+
         {error && (
           <div className="flex items-center p-4 bg-red-900/20 border border-red-700/50 rounded-lg">
             <AlertCircle className="w-5 h-5 text-red-400 mr-3" />
@@ -89,7 +127,7 @@ const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
 
         <button
           onClick={handleAnalyze}
-          disabled={isAnalyzing || !txid.trim()}
+          disabled={isAnalyzing || !rawTx.trim()}
           className="w-full flex items-center justify-center px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors duration-200"
         >
           {isAnalyzing ? (
@@ -109,8 +147,11 @@ const TransactionAnalyzer: React.FC<Props> = ({ onAnalysisComplete }) => {
       <div className="bg-slate-700/30 rounded-lg p-4">
         <h3 className="text-lg font-semibold text-white mb-2">How it works</h3>
         <ul className="text-gray-300 text-sm space-y-1">
-          <li>• Extracts ECDSA signature components (r, s) from transaction inputs</li>
-          <li>• Computes message hash (z) for signature verification</li>
+          <li>• Deserializes legacy and segwit transactions, including witness stacks</li>
+          <li>• Extracts ECDSA signature components (r, s) and the sighash byte from transaction inputs</li>
+          <li>• Computes the legacy sighash (z) for ALL, NONE and SINGLE, with or without ANYONECANPAY</li>
+          <li>• Computes the BIP143 sighash for P2WPKH, P2SH-P2WPKH and P2WSH inputs from the spent amount</li>
+          <li>• Fetches transactions and spent outputs from the selected chain data backend</li>
           <li>• Identifies public key and address information</li>
           <li>• Prepares data for duplicate nonce detection</li>
         </ul>
@@ -17,8 +17,10 @@ export interface AttackResult {
   publicKey?: string;
   address?: string;
   attempts: number;
-  timeElapsed: number;
+  timeElapsed: number; // milliseconds
   method: string;
+  foundWord?: string;
+  error?: string;
 }
 
 export interface AttackProgress {
@@ -5,10 +5,12 @@ export interface TransactionInput {
     asm: string;
     hex: string;
   };
+  sequence: number;
+  witness: string[];
 }
 
 export interface TransactionOutput {
-  value: number;
+  value: number; // satoshis
   scriptPubKey: {
     asm: string;
     hex: string;
@@ -24,6 +26,7 @@ export interface Transaction {
   vin: TransactionInput[];
   vout: TransactionOutput[];
   hex: string;
+  segwit: boolean;
 }
 
 export interface ECDSASignature {
@@ -34,11 +37,39 @@ export interface ECDSASignature {
   z: string; // message hash
   publicKey: string;
   x: string; // x coordinate of public key
+  sigHashType?: number;
+  v?: number; // recovery id, or an Ethereum/signed-message v byte
+  height?: number; // block height, when loaded from a .dupe index
+  zError?: string; // why z is empty, e.g. a segwit input without the spent amount
+}
+
+export interface RecoveredPublicKey {
+  recoveryId: number;
+  publicKey: string; // compressed
+}
+
+export interface SchnorrSignature {
+  txid: string;
+  inputIndex: number;
+  r: string; // x coordinate of R
+  s: string;
+  z: string; // BIP341 signature message hash
+  publicKey: string; // x-only key
+  sigHashType: number;
+}
+
+export interface SchnorrKeyRecovery {
+  r: string;
+  publicKey: string;
+  privateKey: string;
+  nonce: string;
+  signatures: SchnorrSignature[];
 }
 
 export interface DuplicateNonce {
   r: string;
   signatures: ECDSASignature[];
+  sameOwnerPairs: [number, number][]; // indexes into signatures that share an x
 }
 
 export interface AnalysisResult {
@@ -53,4 +84,7 @@ export interface PrivateKeyResult {
   publicKey: string;
   address?: string;
   type: 'nonce' | 'private';
+  nonce?: string;
+  encoding?: 'compressed' | 'uncompressed' | 'x';
+  signCombination?: string; // which s signs solved it, e.g. "+s1 -s2"
 }
\ No newline at end of file
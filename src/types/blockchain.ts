@@ -6,7 +6,7 @@ export interface BlockchainTransaction {
   outputs: TransactionOutput[];
   size: number;
   weight: number;
-  fee: number;
+  fee?: number; // unknown while a spent output is missing
   confirmations: number;
   blockHash?: string;
   blockHeight?: number;
@@ -27,7 +27,7 @@ export interface TransactionOutput {
   value: number;
   scriptPubKey: string;
   address?: string;
-  type: 'P2PKH' | 'P2SH' | 'P2WPKH' | 'P2WSH' | 'P2TR' | 'OP_RETURN';
+  type: 'P2PK' | 'P2PKH' | 'P2SH' | 'P2WPKH' | 'P2WSH' | 'P2TR' | 'MULTISIG' | 'OP_RETURN' | 'NONSTANDARD';
 }
 
 export interface Block {
@@ -0,0 +1,74 @@
+import { Network } from '../utils/address';
+import { UTXO } from './blockchain';
+
+export type ChainBackend = 'fixture' | 'rpc' | 'esplora';
+
+// Spent output as the sighash code needs it; value in satoshis
+export interface Prevout {
+  scriptPubKey: string;
+  value: number;
+}
+
+export interface ChainTransaction {
+  txid: string;
+  hex: string;
+  blockHash?: string;
+  blockHeight?: number;
+  confirmations: number; // 0 while unconfirmed
+  timestamp?: number; // block time, milliseconds
+}
+
+export interface ChainBlock {
+  hash: string;
+  height: number;
+  version: number;
+  previousBlockHash: string;
+  merkleRoot: string;
+  time: number; // header time, seconds
+  bits: string;
+  nonce: number;
+  transactions: ChainTransaction[];
+}
+
+// Everything the analyzers read from a chain backend
+export interface ChainDataProvider {
+  readonly backend: ChainBackend;
+  readonly network: Network;
+  getTransaction(txid: string): Promise<ChainTransaction>;
+  // Raw hex only; unlike confirmations it never changes, so it caches well
+  getTransactionHex(txid: string): Promise<string>;
+  // Height of the block holding the transaction; undefined while unconfirmed
+  getTransactionHeight(txid: string): Promise<number | undefined>;
+  getPrevout(txid: string, vout: number): Promise<Prevout>;
+  getBlock(hashOrHeight: string | number): Promise<ChainBlock>;
+  // Transactions paying to or spending from the address, oldest first
+  getAddressHistory(address: string): Promise<ChainTransaction[]>;
+  getUtxos(address: string): Promise<UTXO[]>;
+}
+
+export interface ChainCacheStats {
+  hits: number;
+  misses: number;
+  entries: number; // held in memory
+  capacity: number;
+  persistent: boolean; // false when IndexedDB is unavailable
+}
+
+// JSON fixture for the offline provider: blocks list their txids in order,
+// transactions carry raw hex; unlisted transactions count as mempool
+export interface ChainFixture {
+  description?: string;
+  network: Network;
+  blocks: {
+    hash: string;
+    height: number;
+    version: number;
+    previousBlockHash: string;
+    merkleRoot: string;
+    time: number;
+    bits: string;
+    nonce: number;
+    txids: string[];
+  }[];
+  transactions: { txid: string; hex: string }[];
+}
@@ -7,6 +7,7 @@ export interface DenovoTransaction {
   size: number;
   weight: number;
   fee?: number;
+  blockHeight?: number; // from the chain backend; unset for pasted or unconfirmed transactions
 }
 
 export interface DenovoInput {
@@ -36,18 +37,28 @@ export interface DenovoSignature {
   publicKey: string;
   address: string;
   scriptType: 'P2PKH' | 'P2PK' | 'P2SH' | 'P2WPKH' | 'P2WSH' | 'P2TR';
+  scheme: 'ECDSA' | 'SCHNORR';
   sigHashType: number;
   isLowS: boolean;
   isDER: boolean;
 }
 
 export interface DenovoVulnerability {
-  type: 'DUPLICATE_NONCE' | 'WEAK_NONCE' | 'BIASED_NONCE' | 'LOW_S_NOT_ENFORCED' | 'MALLEABLE_SIGNATURE';
+  type: 'DUPLICATE_NONCE' | 'RELATED_NONCE' | 'POLYNONCE' | 'NONCE_DERIVATION' | 'WEAK_NONCE' | 'BIASED_NONCE' | 'LOW_S_NOT_ENFORCED' | 'MALLEABLE_SIGNATURE';
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   description: string;
   affectedSignatures: DenovoSignature[];
   exploitability: string;
   recommendation: string;
+  recoveredKeys?: DenovoRecoveredKey[];
+  evidence?: DenovoNonceTest[];
+}
+
+export interface DenovoRecoveredKey {
+  publicKey: string;
+  privateKey: string;
+  nonce: string;
+  relation?: string; // how the nonces were tied together, e.g. 'k2 = k1 + 1'
 }
 
 export interface DenovoAnalysisResult {
@@ -55,6 +66,8 @@ export interface DenovoAnalysisResult {
   signatures: DenovoSignature[];
   vulnerabilities: DenovoVulnerability[];
   riskScore: number;
+  untestedChecks: DenovoUntestedCheck[];
+  errors: string[]; // inputs left out of some or all checks, and why
   analysisTime: number;
 }
 
@@ -64,14 +77,56 @@ export interface DenovoBatchResult {
   totalVulnerabilities: number;
   vulnerabilityBreakdown: Record<string, number>;
   riskDistribution: Record<string, number>;
+  pooledSignatures: number; // every signature of the batch, checked together per key
+  pooledVulnerabilities: DenovoVulnerability[];
+  untestedChecks: DenovoUntestedCheck[];
+  errors: string[]; // transactions that failed to load and inputs left out of checks
   processingTime: number;
 }
 
+// A requested check the analysis cannot run, reported so its absence is not
+// read as a pass
+export interface DenovoUntestedCheck {
+  type: DenovoVulnerability['type'];
+  check: string;
+  reason: string;
+}
+
+// One statistical test over the r or s values of a key's signatures
+export interface DenovoNonceTest {
+  publicKey: string;
+  name: 'monobit' | 'runs' | 'bit-position' | 'leading-bits' | 'collisions';
+  target: 'r' | 's';
+  samples: number; // signatures tested
+  statistic: number;
+  pValue: number;
+  threshold: number; // Holm-corrected; the test fails when pValue < threshold
+  passed: boolean;
+  detail: string;
+}
+
+// k2 = a*k1 + b (mod n), each coefficient as decimal or 0x-prefixed hex
+export interface DenovoNonceRelation {
+  a: string;
+  b: string;
+}
+
 export interface DenovoConfig {
   enableWeakNonceDetection: boolean;
+  weakNonceTableBits: number; // the weak nonce table covers k = 1..2^bits
   enableBiasedNonceDetection: boolean;
+  enableBiasedNonceLattice: boolean; // slow; bounded by timeoutMs
+  biasedNonceLeadingZeroBits: number; // assumed bias for the lattice attack
+  biasedNonceBlockSize: number; // BKZ block size when LLL alone fails; below 2 means LLL only
+  nonceTestSignificance: number; // family-wise error rate of the statistical nonce tests over a run
   enableMalleabilityCheck: boolean;
   enableLowSCheck: boolean;
+  enableRelatedNonceDetection: boolean;
+  relatedNonceMaxOffset: number; // counter search tries k2 = k1 + b for 0 < |b| <= this
+  relatedNonceRelation?: DenovoNonceRelation;
+  enablePolynonceDetection: boolean;
+  polynonceDegree: number; // k_{i+1} is a polynomial of this degree in k_i
+  enableNonceDerivationCheck: boolean;
   batchSize: number;
   timeoutMs: number;
 }
\ No newline at end of file
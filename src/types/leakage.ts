@@ -0,0 +1,46 @@
+export interface KnownNonceBit {
+  position: number; // 0 is the least significant bit of k
+  value: 0 | 1;
+}
+
+// One signature from a side-channel trace with the nonce bits it leaked
+export interface NonceLeak {
+  r: string;
+  s: string;
+  z: string;
+  publicKey: string;
+  knownBits: KnownNonceBit[];
+  line: number; // 1-based line in the import file
+}
+
+export interface LeakageParseError {
+  line: number;
+  text: string;
+  message: string;
+}
+
+export interface LeakageParseResult {
+  leaks: NonceLeak[];
+  errors: LeakageParseError[];
+}
+
+// How the known bits sit in the nonce: leading bits, trailing bits, both
+// ends around an unknown window, or bits only inside the unknown window
+export type LeakageKind = 'msb' | 'lsb' | 'window' | 'middle' | 'mixed';
+
+export interface LeakageModel {
+  kind: LeakageKind;
+  signatures: number;
+  minUsableBits: number; // known bits per signature the lattice can use
+  maxUsableBits: number;
+  ignoredBits: number; // known bits inside an unknown window, across all signatures
+}
+
+export interface LeakageRecovery {
+  publicKey: string;
+  privateKey: string;
+  nonce: string; // k of the most informative signature
+  signaturesUsed: number;
+  reduction: string;
+  model: LeakageModel;
+}
@@ -0,0 +1,55 @@
+import { ECDSASignature } from './bitcoin';
+
+export interface PivotRecord {
+  kind: 'x' | 'r'; // 'x' = private key for a pubkey x, 'r' = nonce for an r value
+  key: string; // the x coordinate or r value the secret belongs to
+  value: string; // recovered private key or nonce (64 hex chars)
+  pass: number;
+  txid: string;
+  inputIndex: number;
+}
+
+export interface PivotSeeds {
+  privateKeys?: Record<string, string>; // x -> private key
+  nonces?: Record<string, string>; // r -> nonce
+}
+
+export interface PivotOptions {
+  // Fills in s, z and publicKey for signatures that only carry txid/index/r/x
+  resolveSignature?: (signature: ECDSASignature) => Promise<ECDSASignature>;
+  seeds?: PivotSeeds;
+  maxPasses?: number;
+  signal?: AbortSignal;
+  onRecord?: (record: PivotRecord) => void;
+}
+
+export interface PivotResult {
+  records: PivotRecord[];
+  privateKeys: Record<string, string>;
+  nonces: Record<string, string>;
+  passes: number;
+  errors: string[];
+}
+
+// One unknown of a shared-nonce equation system: a private key (by x) or a
+// nonce (by r)
+export interface NonceSystemUnknown {
+  kind: 'x' | 'r';
+  key: string;
+  determined: boolean; // the equations pin it down to a single value
+  value?: string; // set once a determined value checks out against its key or r
+}
+
+// Signatures linked by shared r or x values, each contributing
+// s*k - r*d = z (mod n) with k possibly negated per signature
+export interface NonceSystemResult {
+  signatures: ECDSASignature[];
+  skipped?: ECDSASignature[]; // share an r with the group but lack s, z or a key
+  unknowns: NonceSystemUnknown[];
+  equations: number;
+  rank: number;
+  consistent: boolean; // some choice of nonce signs satisfies every equation
+  verified: boolean; // determined keys match their public keys, nonces their r
+  signs: number[]; // per signature, 1 for k and -1 for -k under the chosen solution
+  error?: string; // why the group was left unsolved, e.g. too many sign combinations
+}
@@ -0,0 +1,58 @@
+export type RpcChain = 'main' | 'test' | 'signet' | 'regtest';
+
+export interface RpcConfig {
+  url: string; // http://host:port, or a proxy path such as /bitcoin-rpc
+  user?: string;
+  password?: string;
+  chain: RpcChain;
+}
+
+export interface RpcRetryPolicy {
+  retries: number; // attempts after the first one
+  retryDelayMs: number;
+  timeoutMs: number;
+}
+
+// Subset of getrawtransaction's verbose result
+export interface RpcRawTransaction {
+  txid: string;
+  hash: string;
+  version: number;
+  size: number;
+  vsize: number;
+  weight: number;
+  locktime: number;
+  vin: {
+    txid?: string;
+    vout?: number;
+    coinbase?: string;
+    scriptSig?: { asm: string; hex: string };
+    txinwitness?: string[];
+    sequence: number;
+  }[];
+  vout: {
+    value: number; // BTC
+    n: number;
+    scriptPubKey: { asm: string; hex: string; type: string; address?: string };
+  }[];
+  hex: string;
+  blockhash?: string;
+  confirmations?: number;
+  time?: number;
+  blocktime?: number;
+}
+
+export interface RpcBlockHeader {
+  hash: string;
+  confirmations: number;
+  height: number;
+  version: number;
+  merkleroot: string;
+  time: number;
+  nonce: number;
+  bits: string;
+  difficulty: number;
+  nTx: number;
+  previousblockhash?: string;
+  nextblockhash?: string;
+}
@@ -0,0 +1,309 @@
+import { bytesToHex, concatBytes, hash160, hash256, hexToBytes } from './hash';
+import { encodePoint, liftX, N, Point, pointAdd, privateToPublic } from './secp256k1';
+import { taggedHash } from './taproot';
+import { classifyScript } from './transaction';
+
+export type AddressType = 'P2PKH' | 'P2SH' | 'P2SH-P2WPKH' | 'P2WPKH' | 'P2WSH' | 'P2TR';
+export type Network = 'mainnet' | 'testnet';
+
+// hash is the hash160 for Base58 addresses and the witness program otherwise.
+// Base58 P2SH cannot reveal whether it wraps P2WPKH, so it decodes as P2SH.
+export interface DecodedAddress {
+  address: string;
+  network: Network;
+  type: AddressType;
+  hash: string;
+  witnessVersion?: number;
+  scriptPubKey: string;
+}
+
+export const NETWORKS: Record<Network, { pubKeyHash: number; scriptHash: number; bech32: string }> = {
+  mainnet: { pubKeyHash: 0x00, scriptHash: 0x05, bech32: 'bc' },
+  testnet: { pubKeyHash: 0x6f, scriptHash: 0xc4, bech32: 'tb' }
+};
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Checksum constants: BIP173 for witness v0, BIP350 (bech32m) for v1+
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+export const base58Encode = (bytes: Uint8Array): string => {
+  let num = BigInt('0x' + (bytesToHex(bytes) || '0'));
+  let encoded = '';
+
+  while (num > 0n) {
+    encoded = BASE58_ALPHABET[Number(num % 58n)] + encoded;
+    num /= 58n;
+  }
+
+  // Every leading zero byte becomes a leading '1'
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+};
+
+// Payload followed by the first four bytes of its double SHA256
+export const base58CheckEncode = (payload: Uint8Array): string => {
+  return base58Encode(concatBytes(payload, hash256(payload).slice(0, 4)));
+};
+
+export const base58Decode = (encoded: string): Uint8Array => {
+  let num = 0n;
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid Base58 character '${char}'`);
+    }
+    num = num * 58n + BigInt(digit);
+  }
+
+  const hex = num === 0n ? '' : num.toString(16);
+  const leadingZeros = encoded.length - encoded.replace(/^1+/, '').length;
+  return concatBytes(new Uint8Array(leadingZeros), hexToBytes(hex.length % 2 ? '0' + hex : hex));
+};
+
+export const base58CheckDecode = (encoded: string): Uint8Array => {
+  const bytes = base58Decode(encoded);
+  if (bytes.length < 5) {
+    throw new Error('Base58Check string is too short');
+  }
+
+  const payload = bytes.slice(0, -4);
+  const checksum = hash256(payload).slice(0, 4);
+  if (bytesToHex(checksum) !== bytesToHex(bytes.slice(-4))) {
+    throw new Error('Invalid Base58Check checksum');
+  }
+  return payload;
+};
+
+export const bech32Polymod = (values: number[]): number => {
+  let checksum = 1;
+  values.forEach(value => {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, i) => {
+      if ((top >> i) & 1) checksum ^= generator;
+    });
+  });
+  return checksum;
+};
+
+export const bech32HrpExpand = (hrp: string): number[] => {
+  const chars = Array.from(hrp).map(c => c.charCodeAt(0));
+  return [...chars.map(c => c >> 5), 0, ...chars.map(c => c & 31)];
+};
+
+// Regroups bits between 8-bit bytes and 5-bit bech32 words
+export const convertBits = (data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean): number[] => {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < 0 || data[i] >> fromBits) {
+      throw new Error('Invalid value for bit conversion');
+    }
+    accumulator = (accumulator << fromBits) | data[i];
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) result.push((accumulator << (toBits - bits)) & maxValue);
+  } else if (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue)) {
+    throw new Error('Invalid padding in bit conversion');
+  }
+
+  return result;
+};
+
+export const encodeSegwitAddress = (hrp: string, version: number, program: Uint8Array): string => {
+  if (version < 0 || version > 16) {
+    throw new Error(`Invalid witness version ${version}`);
+  }
+  if (program.length < 2 || program.length > 40 || (version === 0 && program.length !== 20 && program.length !== 32)) {
+    throw new Error(`Invalid witness program length ${program.length}`);
+  }
+
+  const data = [version, ...convertBits(program, 8, 5, true)];
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^
+    (version === 0 ? BECH32_CONST : BECH32M_CONST);
+  const checksum = Array.from({ length: 6 }, (_, i) => (polymod >> (5 * (5 - i))) & 31);
+
+  return `${hrp}1${[...data, ...checksum].map(value => BECH32_CHARSET[value]).join('')}`;
+};
+
+// Returns the witness version and program; rejects bad checksums and the wrong
+// checksum variant for the version (Bech32 for v0, Bech32m for v1+)
+export const decodeSegwitAddress = (address: string): { hrp: string; version: number; program: Uint8Array } => {
+  if (address.length > 90) {
+    throw new Error('Bech32 address is too long');
+  }
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw new Error('Bech32 address mixes upper and lower case');
+  }
+
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error('Invalid Bech32 separator position');
+  }
+
+  const hrp = lower.slice(0, separator);
+  const data = Array.from(lower.slice(separator + 1)).map(char => {
+    const value = BECH32_CHARSET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid Bech32 character '${char}'`);
+    }
+    return value;
+  });
+
+  const checksum = bech32Polymod([...bech32HrpExpand(hrp), ...data]);
+  if (checksum !== BECH32_CONST && checksum !== BECH32M_CONST) {
+    throw new Error('Invalid Bech32 checksum');
+  }
+
+  const version = data[0];
+  if (version > 16) {
+    throw new Error(`Invalid witness version ${version}`);
+  }
+  if ((version === 0) !== (checksum === BECH32_CONST)) {
+    throw new Error(version === 0 ? 'Witness v0 addresses must use Bech32' : 'Witness v1+ addresses must use Bech32m');
+  }
+
+  const program = new Uint8Array(convertBits(data.slice(1, -6), 5, 8, false));
+  if (program.length < 2 || program.length > 40 || (version === 0 && program.length !== 20 && program.length !== 32)) {
+    throw new Error(`Invalid witness program length ${program.length}`);
+  }
+
+  return { hrp, version, program };
+};
+
+// BIP341/BIP86 output key for a key-path-only taproot output:
+// Q = lift_x(P) + int(H_TapTweak(x(P))) * G
+export const taprootOutputKey = (internalKey: Point): Point => {
+  const x = hexToBytes(internalKey.x.toString(16).padStart(64, '0'));
+  const tweak = BigInt('0x' + bytesToHex(taggedHash('TapTweak', x)));
+  if (tweak >= N) {
+    throw new Error('Taproot tweak out of range');
+  }
+  return pointAdd(liftX(internalKey.x), privateToPublic(tweak));
+};
+
+// Address a single public key receives funds on. Segwit types only accept
+// compressed keys; P2TR ignores the encoding and uses the x-only tweaked key.
+export const publicKeyToAddress = (
+  publicKey: Point,
+  type: AddressType = 'P2PKH',
+  compressed: boolean = true,
+  network: Network = 'mainnet'
+): string => {
+  const params = NETWORKS[network];
+  const keyHash = hash160(hexToBytes(encodePoint(publicKey, compressed)));
+
+  switch (type) {
+    case 'P2PKH':
+      return base58CheckEncode(concatBytes(new Uint8Array([params.pubKeyHash]), keyHash));
+    case 'P2SH-P2WPKH': {
+      requireCompressed(type, compressed);
+      const redeemScript = concatBytes(new Uint8Array([0x00, 0x14]), keyHash);
+      return base58CheckEncode(concatBytes(new Uint8Array([params.scriptHash]), hash160(redeemScript)));
+    }
+    case 'P2WPKH':
+      requireCompressed(type, compressed);
+      return encodeSegwitAddress(params.bech32, 0, keyHash);
+    case 'P2TR': {
+      const outputKey = taprootOutputKey(publicKey);
+      return encodeSegwitAddress(params.bech32, 1, hexToBytes(outputKey.x.toString(16).padStart(64, '0')));
+    }
+    default:
+      throw new Error(`${type} addresses are derived from a script, not a public key`);
+  }
+};
+
+// Address for an output script, or null for scripts without one (bare
+// multisig, P2PK, OP_RETURN, nonstandard)
+export const scriptToAddress = (scriptPubKey: string, network: Network = 'mainnet'): string | null => {
+  const params = NETWORKS[network];
+  const script = scriptPubKey.toLowerCase();
+
+  switch (classifyScript(script)) {
+    case 'pubkeyhash':
+      return base58CheckEncode(concatBytes(new Uint8Array([params.pubKeyHash]), hexToBytes(script.slice(6, 46))));
+    case 'scripthash':
+      return base58CheckEncode(concatBytes(new Uint8Array([params.scriptHash]), hexToBytes(script.slice(4, 44))));
+    case 'witness_v0_keyhash':
+    case 'witness_v0_scripthash':
+      return encodeSegwitAddress(params.bech32, 0, hexToBytes(script.slice(4)));
+    case 'witness_v1_taproot':
+      return encodeSegwitAddress(params.bech32, 1, hexToBytes(script.slice(4)));
+    default:
+      return null;
+  }
+};
+
+const requireCompressed = (type: AddressType, compressed: boolean) => {
+  if (!compressed) {
+    throw new Error(`${type} requires a compressed public key`);
+  }
+};
+
+export const decodeAddress = (address: string): DecodedAddress => {
+  const trimmed = address.trim();
+  if (!trimmed) {
+    throw new Error('Address is empty');
+  }
+
+  const lower = trimmed.toLowerCase();
+  const segwitNetwork = (Object.keys(NETWORKS) as Network[]).find(net => lower.startsWith(`${NETWORKS[net].bech32}1`));
+
+  if (segwitNetwork) {
+    const { version, program } = decodeSegwitAddress(trimmed);
+    const hash = bytesToHex(program);
+    const pushOpcode = version === 0 ? '00' : (0x50 + version).toString(16);
+    const scriptPubKey = `${pushOpcode}${program.length.toString(16).padStart(2, '0')}${hash}`;
+
+    let type: AddressType;
+    if (version === 0) {
+      type = program.length === 20 ? 'P2WPKH' : 'P2WSH';
+    } else if (version === 1 && program.length === 32) {
+      type = 'P2TR';
+    } else {
+      throw new Error(`Unsupported witness version ${version} program`);
+    }
+
+    return { address: lower, network: segwitNetwork, type, hash, witnessVersion: version, scriptPubKey };
+  }
+
+  const payload = base58CheckDecode(trimmed);
+  if (payload.length !== 21) {
+    throw new Error(`Invalid address payload length ${payload.length}`);
+  }
+
+  const hash = bytesToHex(payload.slice(1));
+  for (const network of Object.keys(NETWORKS) as Network[]) {
+    if (payload[0] === NETWORKS[network].pubKeyHash) {
+      return { address: trimmed, network, type: 'P2PKH', hash, scriptPubKey: `76a914${hash}88ac` };
+    }
+    if (payload[0] === NETWORKS[network].scriptHash) {
+      return { address: trimmed, network, type: 'P2SH', hash, scriptPubKey: `a914${hash}87` };
+    }
+  }
+
+  throw new Error(`Unknown address version byte 0x${payload[0].toString(16).padStart(2, '0')}`);
+};
+
+// Bech32 addresses are case-insensitive; Base58 ones are not
+export const normalizeAddress = (address: string): string => {
+  const trimmed = address.trim();
+  return /^(bc|tb)1/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+};
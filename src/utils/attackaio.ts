@@ -1,120 +1,69 @@
-import { AttackMethod, AttackResult, KeyspaceAnalysis, AttackVector } from '../types/attackaio';
+import {
+  AttackMethod,
+  AttackProgress,
+  AttackResult,
+  AttackVector,
+  BruteForceConfig,
+  DictionaryAttackConfig,
+  KeyspaceAnalysis
+} from '../types/attackaio';
+import {
+  decodePoint,
+  encodePoint,
+  G,
+  liftX,
+  modInverse,
+  N,
+  Point,
+  pointAdd,
+  pointMultiply,
+  privateToPublic
+} from './secp256k1';
+import { AddressType, decodeAddress, publicKeyToAddress, taprootOutputKey } from './address';
+import { bytesToHex, hash160, hexToBytes } from './hash';
 
-// Secp256k1 curve parameters
-const CURVE_ORDER = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
-const GENERATOR_X = BigInt('0x79BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798');
-const GENERATOR_Y = BigInt('0x483ADA7726A3C4655DA4FBFC0E1108A8FD17B448A68554199C47D08FFB10D4B8');
-const FIELD_PRIME = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F');
-
-// Point on elliptic curve
-interface Point {
-  x: bigint;
-  y: bigint;
-  infinity?: boolean;
-}
-
-// Modular arithmetic helpers
-function modInverse(a: bigint, m: bigint): bigint {
-  if (a < 0n) a = ((a % m) + m) % m;
-  
-  let [old_r, r] = [a, m];
-  let [old_s, s] = [1n, 0n];
-  
-  while (r !== 0n) {
-    const quotient = old_r / r;
-    [old_r, r] = [r, old_r - quotient * r];
-    [old_s, s] = [s, old_s - quotient * s];
+// Decodes the target (checksum errors surface here) and returns a matcher that
+// compares a candidate key's hash against it. Base58 P2SH targets are assumed to
+// wrap P2WPKH; segwit and taproot only exist for compressed keys, so
+// `compressed` only affects P2PKH.
+const addressMatcher = (targetAddress: string, compressed: boolean) => {
+  const target = decodeAddress(targetAddress);
+  const type: AddressType = target.type === 'P2SH' ? 'P2SH-P2WPKH' : target.type;
+  if (type === 'P2WSH') {
+    throw new Error('P2WSH addresses commit to a script, not a single key');
   }
-  
-  return old_s < 0n ? old_s + m : old_s;
-}
 
-function modPow(base: bigint, exp: bigint, mod: bigint): bigint {
-  let result = 1n;
-  base = base % mod;
-  while (exp > 0n) {
-    if (exp % 2n === 1n) {
-      result = (result * base) % mod;
+  const keyHash = (publicKey: Point) => bytesToHex(hash160(hexToBytes(encodePoint(publicKey, compressed || type !== 'P2PKH'))));
+  const candidateHash = (publicKey: Point): string => {
+    switch (type) {
+      case 'P2SH-P2WPKH':
+        return bytesToHex(hash160(hexToBytes(`0014${keyHash(publicKey)}`)));
+      case 'P2TR':
+        return taprootOutputKey(publicKey).x.toString(16).padStart(64, '0');
+      default:
+        return keyHash(publicKey);
     }
-    exp = exp >> 1n;
-    base = (base * base) % mod;
-  }
-  return result;
-}
-
-// Elliptic curve point operations
-function pointAdd(p1: Point, p2: Point): Point {
-  if (p1.infinity) return p2;
-  if (p2.infinity) return p1;
-  
-  if (p1.x === p2.x) {
-    if (p1.y === p2.y) {
-      return pointDouble(p1);
-    } else {
-      return { x: 0n, y: 0n, infinity: true };
-    }
-  }
-  
-  const slope = ((p2.y - p1.y) * modInverse(p2.x - p1.x, FIELD_PRIME)) % FIELD_PRIME;
-  const x3 = (slope * slope - p1.x - p2.x) % FIELD_PRIME;
-  const y3 = (slope * (p1.x - x3) - p1.y) % FIELD_PRIME;
-  
-  return {
-    x: x3 < 0n ? x3 + FIELD_PRIME : x3,
-    y: y3 < 0n ? y3 + FIELD_PRIME : y3
   };
-}
 
-function pointDouble(p: Point): Point {
-  if (p.infinity) return p;
-  
-  const slope = ((3n * p.x * p.x) * modInverse(2n * p.y, FIELD_PRIME)) % FIELD_PRIME;
-  const x3 = (slope * slope - 2n * p.x) % FIELD_PRIME;
-  const y3 = (slope * (p.x - x3) - p.y) % FIELD_PRIME;
-  
-  return {
-    x: x3 < 0n ? x3 + FIELD_PRIME : x3,
-    y: y3 < 0n ? y3 + FIELD_PRIME : y3
+  return (publicKey: Point): string | null => {
+    return candidateHash(publicKey) === target.hash ? target.address : null;
   };
-}
+};
 
-function pointMultiply(k: bigint, point: Point): Point {
-  if (k === 0n) return { x: 0n, y: 0n, infinity: true };
-  if (k === 1n) return point;
-  
-  let result: Point = { x: 0n, y: 0n, infinity: true };
-  let addend = point;
-  
-  while (k > 0n) {
-    if (k & 1n) {
-      result = pointAdd(result, addend);
-    }
-    addend = pointDouble(addend);
-    k >>= 1n;
+// Point for attacks that solve the discrete log directly. A P2TR address
+// carries its (tweaked) output key; every other address only has a hash.
+const resolveTargetPoint = (target: string): Point => {
+  const trimmed = target.trim();
+  if (/^(02|03)[0-9a-fA-F]{64}$|^04[0-9a-fA-F]{128}$/.test(trimmed)) {
+    return decodePoint(trimmed);
   }
-  
-  return result;
-}
 
-// Convert private key to public key
-function privateToPublic(privateKey: bigint): Point {
-  const generator: Point = { x: GENERATOR_X, y: GENERATOR_Y };
-  return pointMultiply(privateKey, generator);
-}
-
-// Convert public key to Bitcoin address
-function publicKeyToAddress(publicKey: Point, compressed: boolean = true): string {
-  // This is a simplified version - in reality you'd need proper Base58 encoding
-  const x = publicKey.x.toString(16).padStart(64, '0');
-  const y = publicKey.y.toString(16).padStart(64, '0');
-  
-  if (compressed) {
-    const prefix = publicKey.y % 2n === 0n ? '02' : '03';
-    return `1${prefix}${x}...`; // Simplified address format
-  } else {
-    return `1${x}${y}...`; // Simplified address format
+  const decoded = decodeAddress(trimmed);
+  if (decoded.type === 'P2TR') {
+    return liftX(BigInt('0x' + decoded.hash));
   }
-}
+  throw new Error(`Public key required: ${decoded.type} addresses only commit to a hash of the key`);
+};
 
 export class AttackAIO {
   private abortController: AbortController | null = null;
@@ -123,7 +72,8 @@ export class AttackAIO {
     targetAddress: string,
     startRange: bigint,
     endRange: bigint,
-    onProgress: (progress: number, current: bigint, rate: number) => void
+    onProgress: (progress: number, current: bigint, rate: number) => void,
+    compressed: boolean = true
   ): Promise<AttackResult> {
     this.abortController = new AbortController();
     const startTime = Date.now();
@@ -132,35 +82,38 @@ export class AttackAIO {
     let keysChecked = 0;
     
     try {
+      const matchAddress = addressMatcher(targetAddress, compressed);
+
+      // Step the public key by G instead of multiplying for every candidate
+      let publicKey = privateToPublic(current);
       while (current <= endRange && !this.abortController.signal.aborted) {
-        const publicKey = privateToPublic(current);
-        const address = publicKeyToAddress(publicKey);
+        const address = matchAddress(publicKey);
         
         keysChecked++;
         
         // Update progress every 1000 keys or every second
         if (keysChecked % 1000 === 0 || Date.now() - lastUpdate > 1000) {
-          const progress = Number((current - startRange) * 100n / (endRange - startRange));
+          const progress = Number((current - startRange) * 100n / (endRange - startRange || 1n));
           const elapsed = (Date.now() - startTime) / 1000;
           const rate = keysChecked / elapsed;
           onProgress(progress, current, rate);
           lastUpdate = Date.now();
         }
         
-        // Simplified address comparison (in reality, you'd need proper address generation)
-        if (address.includes(targetAddress.slice(1, 10))) {
+        if (address) {
           return {
-            success: true,
-            privateKey: current.toString(16),
-            publicKey: `04${publicKey.x.toString(16).padStart(64, '0')}${publicKey.y.toString(16).padStart(64, '0')}`,
+            found: true,
+            privateKey: current.toString(16).padStart(64, '0'),
+            publicKey: encodePoint(publicKey, compressed),
             address,
             method: 'brute_force',
-            timeElapsed: (Date.now() - startTime) / 1000,
-            keysChecked
+            timeElapsed: Date.now() - startTime,
+            attempts: keysChecked
           };
         }
         
         current++;
+        publicKey = pointAdd(publicKey, G);
         
         // Yield control occasionally
         if (keysChecked % 10000 === 0) {
@@ -169,36 +122,61 @@ export class AttackAIO {
       }
       
       return {
-        success: false,
+        found: false,
         method: 'brute_force',
-        timeElapsed: (Date.now() - startTime) / 1000,
-        keysChecked,
+        timeElapsed: Date.now() - startTime,
+        attempts: keysChecked,
         error: this.abortController.signal.aborted ? 'Attack aborted' : 'Key not found in range'
       };
     } catch (error) {
       return {
-        success: false,
+        found: false,
         method: 'brute_force',
-        timeElapsed: (Date.now() - startTime) / 1000,
-        keysChecked,
+        timeElapsed: Date.now() - startTime,
+        attempts: keysChecked,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
+
+  // Puzzle-style entry point: hex key range and address format from the config
+  async bruteForcePuzzle(
+    config: BruteForceConfig,
+    onProgress: (progress: AttackProgress) => void,
+    signal?: AbortSignal
+  ): Promise<AttackResult> {
+    const start = BigInt('0x' + config.startKey);
+    const end = BigInt('0x' + config.endKey);
+    signal?.addEventListener('abort', () => this.abort(), { once: true });
+
+    return this.bruteForceAttack(config.targetAddress, start, end, (percentage, current, rate) => {
+      onProgress({
+        current: current.toString(16),
+        attempts: Number(current - start + 1n),
+        rate,
+        eta: rate > 0 ? Number(end - current) / rate : 0,
+        percentage
+      });
+    }, config.compressed);
+  }
   
   async dictionaryAttack(
-    targetAddress: string,
-    wordlist: string[],
-    onProgress: (progress: number, current: string, rate: number) => void
+    config: DictionaryAttackConfig,
+    onProgress: (progress: AttackProgress) => void,
+    signal?: AbortSignal
   ): Promise<AttackResult> {
     this.abortController = new AbortController();
+    signal?.addEventListener('abort', () => this.abort(), { once: true });
+    const { wordlist, compressed } = config;
     const startTime = Date.now();
     let keysChecked = 0;
     
     try {
+      const matchAddress = addressMatcher(config.targetAddress, compressed);
+
       for (let i = 0; i < wordlist.length && !this.abortController.signal.aborted; i++) {
         const word = wordlist[i];
-        const variations = this.generateVariations(word);
+        const variations = config.variations ? this.generateVariations(word) : [word];
         
         for (const variation of variations) {
           if (this.abortController.signal.aborted) break;
@@ -206,26 +184,30 @@ export class AttackAIO {
           // Convert string to private key (simplified hash)
           const privateKey = this.stringToPrivateKey(variation);
           const publicKey = privateToPublic(privateKey);
-          const address = publicKeyToAddress(publicKey);
+          const address = matchAddress(publicKey);
           
           keysChecked++;
           
           if (keysChecked % 100 === 0) {
-            const progress = (i / wordlist.length) * 100;
             const elapsed = (Date.now() - startTime) / 1000;
-            const rate = keysChecked / elapsed;
-            onProgress(progress, variation, rate);
+            onProgress({
+              current: variation,
+              attempts: keysChecked,
+              rate: keysChecked / elapsed,
+              eta: 0,
+              percentage: (i / wordlist.length) * 100
+            });
           }
           
-          if (address.includes(targetAddress.slice(1, 10))) {
+          if (address) {
             return {
-              success: true,
-              privateKey: privateKey.toString(16),
-              publicKey: `04${publicKey.x.toString(16).padStart(64, '0')}${publicKey.y.toString(16).padStart(64, '0')}`,
+              found: true,
+              privateKey: privateKey.toString(16).padStart(64, '0'),
+              publicKey: encodePoint(publicKey, compressed),
               address,
               method: 'dictionary',
-              timeElapsed: (Date.now() - startTime) / 1000,
-              keysChecked,
+              timeElapsed: Date.now() - startTime,
+              attempts: keysChecked,
               foundWord: variation
             };
           }
@@ -237,25 +219,25 @@ export class AttackAIO {
       }
       
       return {
-        success: false,
+        found: false,
         method: 'dictionary',
-        timeElapsed: (Date.now() - startTime) / 1000,
-        keysChecked,
+        timeElapsed: Date.now() - startTime,
+        attempts: keysChecked,
         error: this.abortController.signal.aborted ? 'Attack aborted' : 'Key not found in wordlist'
       };
     } catch (error) {
       return {
-        success: false,
+        found: false,
         method: 'dictionary',
-        timeElapsed: (Date.now() - startTime) / 1000,
-        keysChecked,
+        timeElapsed: Date.now() - startTime,
+        attempts: keysChecked,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
   
   async pollardRhoAttack(
-    targetAddress: string,
+    target: string,
     onProgress: (progress: number, current: bigint, rate: number) => void
   ): Promise<AttackResult> {
     this.abortController = new AbortController();
@@ -264,8 +246,8 @@ export class AttackAIO {
     
     try {
       // Simplified Pollard's Rho for ECDLP
-      const generator: Point = { x: GENERATOR_X, y: GENERATOR_Y };
-      const targetPublicKey = this.addressToPublicKey(targetAddress); // Simplified
+      const generator = G;
+      const targetPublicKey = resolveTargetPoint(target);
       
       let x = BigInt(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER));
       let y = x;
@@ -332,7 +314,7 @@ export class AttackAIO {
   }
   
   async babyStepGiantStepAttack(
-    targetAddress: string,
+    target: string,
     maxRange: bigint,
     onProgress: (progress: number, current: bigint, rate: number) => void
   ): Promise<AttackResult> {
@@ -341,9 +323,11 @@ export class AttackAIO {
     let operations = 0;
     
     try {
+      // Resolve the target first so address-only targets fail before any work
+      const targetPublicKey = resolveTargetPoint(target);
       const m = BigInt(Math.ceil(Math.sqrt(Number(maxRange))));
       const babySteps = new Map<string, bigint>();
-      const generator: Point = { x: GENERATOR_X, y: GENERATOR_Y };
+      const generator = G;
       
       // Baby steps: compute γ^j for j = 0, 1, ..., m-1
       let current = generator;
@@ -363,15 +347,14 @@ export class AttackAIO {
       }
       
       // Giant steps: compute β * (γ^(-m))^i for i = 0, 1, ..., m-1
-      const targetPublicKey = this.addressToPublicKey(targetAddress);
-      const gammaInvM = pointMultiply(modInverse(m, CURVE_ORDER), generator);
+      const gammaInvM = pointMultiply(modInverse(m, N), generator);
       let y = targetPublicKey;
       
       for (let i = 0n; i < m && !this.abortController.signal.aborted; i++) {
         const key = `${y.x}_${y.y}`;
         if (babySteps.has(key)) {
           const j = babySteps.get(key)!;
-          const privateKey = (i * m + j) % CURVE_ORDER;
+          const privateKey = (i * m + j) % N;
           
           const publicKey = privateToPublic(privateKey);
           const address = publicKeyToAddress(publicKey);
@@ -455,26 +438,20 @@ export class AttackAIO {
     // Simple hash function to convert string to private key
     let hash = 0n;
     for (let i = 0; i < str.length; i++) {
-      hash = (hash * 31n + BigInt(str.charCodeAt(i))) % CURVE_ORDER;
+      hash = (hash * 31n + BigInt(str.charCodeAt(i))) % N;
     }
     return hash === 0n ? 1n : hash;
   }
   
   private rhoFunction(x: bigint): bigint {
     // Simple rho function for Pollard's rho
-    return (x * x + 1n) % CURVE_ORDER;
-  }
-  
-  private addressToPublicKey(address: string): Point {
-    // Simplified conversion - in reality this would require proper address decoding
-    const hash = this.stringToPrivateKey(address);
-    return privateToPublic(hash);
+    return (x * x + 1n) % N;
   }
   
   private solveDLP(x: bigint, y: bigint, targetPublicKey: Point): bigint | null {
     // Simplified DLP solver - in reality this would be much more complex
     try {
-      return (x - y) % CURVE_ORDER;
+      return (x - y) % N;
     } catch {
       return null;
     }
@@ -1,27 +1,92 @@
 import CryptoJS from 'crypto-js';
-import { ECDSASignature, DuplicateNonce, PrivateKeyResult } from '../types/bitcoin';
+import { ECDSASignature, DuplicateNonce, PrivateKeyResult, RecoveredPublicKey } from '../types/bitcoin';
+import { ChainDataProvider } from '../types/chain';
+import {
+  buildP2PKHScript,
+  classifyScript,
+  decodeScript,
+  extractInputSignature,
+  parseTransaction
+} from './transaction';
+import { computeInputSighash, legacyScriptCode, legacySighash, SIGHASH_ALL } from './sighash';
+import { bytesToHex, concatBytes, hash160, hexToBytes } from './hash';
+import { base58CheckEncode } from './address';
+import {
+  decodePoint,
+  encodePoint,
+  G,
+  liftX,
+  modInverse,
+  N,
+  P,
+  Point,
+  pointAdd,
+  pointMultiply,
+  privateToPublic
+} from './secp256k1';
 
-// Secp256k1 curve parameters
-const N = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
-const P = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F');
+// Parse a raw transaction and extract the signature of one input.
+// prevScriptPubKey is the spent output's script; P2PKH is assumed without it.
+// Segwit inputs also need the spent amount (prevValue, in satoshis). With a
+// chain data provider a bare txid is fetched and the missing prevout looked up.
+export const analyzeTransaction = async (
+  rawTx: string,
+  inputIndex: number,
+  prevScriptPubKey?: string,
+  prevValue?: number,
+  provider?: ChainDataProvider | null
+): Promise<ECDSASignature> => {
+  let hex = rawTx.replace(/\s+/g, '');
+  if (/^[0-9a-fA-F]{64}$/.test(hex)) {
+    if (!provider) {
+      throw new Error('Paste the raw transaction hex; looking up a txid needs a chain data backend');
+    }
+    hex = await provider.getTransactionHex(hex.toLowerCase());
+  }
 
-// Mock transaction analysis (in real implementation, this would connect to Bitcoin RPC)
-export const analyzeTransaction = async (txid: string, inputIndex: number): Promise<ECDSASignature> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Mock data - in real implementation, this would parse actual Bitcoin transactions
-  const mockSignature: ECDSASignature = {
-    txid,
-    inputIndex,
-    r: generateMockHex(64),
-    s: generateMockHex(64),
-    z: generateMockHex(64),
-    publicKey: generateMockHex(130), // Uncompressed public key
-    x: generateMockHex(64)
-  };
-  
-  return mockSignature;
+  const transaction = parseTransaction(hex);
+  const signature = extractInputSignature(transaction, inputIndex);
+
+  if (provider && (!prevScriptPubKey?.trim() || prevValue === undefined)) {
+    const input = transaction.vin[inputIndex];
+    const prevout = await provider.getPrevout(input.txid, input.vout);
+    prevScriptPubKey = prevScriptPubKey?.trim() || prevout.scriptPubKey;
+    prevValue = prevValue ?? prevout.value;
+  }
+
+  const scriptPubKey = prevScriptPubKey?.trim().toLowerCase() || '';
+  const sigHashType = signature.sigHashType ?? SIGHASH_ALL;
+
+  // P2PK inputs only carry the signature; the key lives in the spent output
+  if (!signature.publicKey && classifyScript(scriptPubKey) === 'pubkey') {
+    signature.publicKey = bytesToHex(decodeScript(scriptPubKey)[0].data!);
+    signature.x = signature.publicKey.slice(2, 66);
+  }
+
+  const input = transaction.vin[inputIndex];
+  if (input.witness.length === 0) {
+    const script = scriptPubKey || (signature.publicKey ? buildP2PKHScript(signature.publicKey) : '');
+    if (script) {
+      const scriptCode = legacyScriptCode(transaction, inputIndex, script);
+      signature.z = legacySighash(transaction, inputIndex, scriptCode, sigHashType);
+    } else {
+      signature.zError = 'the spent script is unknown and there is no key to assume P2PKH';
+    }
+  } else if (prevValue === undefined) {
+    signature.zError = 'a segwit sighash commits to the spent amount; supply prevValue or a chain data backend';
+  } else {
+    // A bare witness key spend implies P2WPKH when no script was supplied
+    const script = scriptPubKey || (!input.scriptSig.hex && input.witness.length === 2 && signature.publicKey
+      ? `0014${bytesToHex(hash160(hexToBytes(signature.publicKey)))}`
+      : '');
+    if (script) {
+      signature.z = computeInputSighash(transaction, inputIndex, { scriptPubKey: script, value: prevValue }, sigHashType);
+    } else {
+      signature.zError = 'the spent script is unknown';
+    }
+  }
+
+  return signature;
 };
 
 export const findDuplicateNonces = (signatures: ECDSASignature[]): DuplicateNonce[] => {
@@ -39,13 +104,32 @@ export const findDuplicateNonces = (signatures: ECDSASignature[]): DuplicateNonc
   const duplicates: DuplicateNonce[] = [];
   Object.entries(rGroups).forEach(([r, sigs]) => {
     if (sigs.length > 1) {
-      duplicates.push({ r, signatures: sigs });
+      duplicates.push({ r, signatures: sigs, sameOwnerPairs: findSameOwnerPairs(sigs) });
     }
   });
   
   return duplicates;
 };
 
+// Pairs pivot.py would solve directly (d1['x'] == d2['x']); pairs across
+// different keys only leak the nonce once one of the keys is known
+const findSameOwnerPairs = (signatures: ECDSASignature[]): [number, number][] => {
+  const owners = signatures.map(sig => (sig.x || sig.publicKey.slice(2, 66)).toLowerCase());
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < owners.length; i++) {
+    for (let j = i + 1; j < owners.length; j++) {
+      if (owners[i] && owners[i] === owners[j]) {
+        pairs.push([i, j]);
+      }
+    }
+  }
+  return pairs;
+};
+
+// Port of pivot.py's solve_dupe_r: low-s normalization may have negated either
+// s, so try every sign combination and accept a key only when it reproduces the
+// supplied public key. publicKey may be compressed, uncompressed or a bare x.
+// Throws when no combination matches instead of returning an unverified key.
 export const recoverPrivateKey = (
   r: string,
   s1: string,
@@ -53,68 +137,177 @@ export const recoverPrivateKey = (
   z1: string,
   z2: string,
   publicKey: string
-): PrivateKeyResult | null => {
-  try {
-    const rBig = BigInt('0x' + r);
-    const s1Big = BigInt('0x' + s1);
-    const s2Big = BigInt('0x' + s2);
-    const z1Big = BigInt('0x' + z1);
-    const z2Big = BigInt('0x' + z2);
-    
-    // Calculate k (nonce) using: k = (z1 - z2) / (s1 - s2) mod n
-    const numerator = (z1Big - z2Big + N) % N;
-    const denominator = (s1Big - s2Big + N) % N;
-    const denominatorInv = modInverse(denominator, N);
-    const k = (numerator * denominatorInv) % N;
-    
-    // Calculate private key using: d = (s1 * k - z1) / r mod n
-    const numerator2 = (s1Big * k - z1Big + N) % N;
-    const rInv = modInverse(rBig, N);
-    const privateKey = (numerator2 * rInv) % N;
-    
-    // Verify the recovered key (simplified verification)
-    if (privateKey > 0n && privateKey < N) {
+): PrivateKeyResult => {
+  const rBig = BigInt('0x' + r);
+  const s1Big = BigInt('0x' + s1);
+  const s2Big = BigInt('0x' + s2);
+  const z1Big = BigInt('0x' + z1);
+  const z2Big = BigInt('0x' + z2);
+
+  if (rBig === 0n || rBig >= N) {
+    throw new Error('r is out of range');
+  }
+  if (z1Big % N === z2Big % N) {
+    throw new Error('Both signatures sign the same message hash');
+  }
+
+  for (const [sign1, sign2] of S_SIGN_COMBINATIONS) {
+    // k = (z1 - z2) / (±s1 - ±s2) mod n
+    const denominator = ((sign1 * s1Big - sign2 * s2Big) % N + N) % N;
+    if (denominator === 0n) continue;
+    const k = ((z1Big - z2Big) % N + N) % N * modInverse(denominator, N) % N;
+
+    // d = (±s1 * k - z1) / r mod n
+    const privateKey = solveForPrivateKey(rBig, sign1 * s1Big, z1Big, k);
+    if (privateKey === 0n) continue;
+
+    const encoding = matchPublicKey(privateKey, publicKey);
+    if (encoding) {
       return {
         privateKey: privateKey.toString(16).padStart(64, '0'),
-        publicKey: publicKey,
-        type: 'private'
+        publicKey: publicKey.toLowerCase(),
+        type: 'private',
+        nonce: k.toString(16).padStart(64, '0'),
+        encoding,
+        signCombination: `${sign1 > 0n ? '+' : '-'}s1 ${sign2 > 0n ? '+' : '-'}s2`
       };
     }
-    
+  }
+
+  throw new Error('No s sign combination yields a key matching the public key');
+};
+
+const S_SIGN_COMBINATIONS: [bigint, bigint][] = [[1n, 1n], [1n, -1n], [-1n, 1n], [-1n, -1n]];
+
+// Which encoding of privateKey's public point equals publicKey, if any
+export const matchPublicKey = (
+  privateKey: bigint,
+  publicKey: string
+): PrivateKeyResult['encoding'] | null => {
+  const point = privateToPublic(privateKey);
+  const target = publicKey.trim().toLowerCase();
+
+  if (target === encodePoint(point, false)) return 'uncompressed';
+  if (target === encodePoint(point, true)) return 'compressed';
+  if (target === point.x.toString(16).padStart(64, '0')) return 'x';
+  return null;
+};
+
+// Solve d = (s * k - z) / r mod n for a signature with a known nonce
+export const solveForPrivateKey = (r: bigint, s: bigint, z: bigint, k: bigint): bigint => {
+  return (((s * k - z) % N + N) % N * modInverse(r, N)) % N;
+};
+
+// Solve k = (z + r * d) / s mod n for a signature with a known private key
+export const solveForNonce = (r: bigint, s: bigint, z: bigint, privateKey: bigint): bigint => {
+  return (((z + r * privateKey) % N + N) % N * modInverse(s, N)) % N;
+};
+
+// Q = r^-1 * (s*R - z*G), where the recovery id picks R: bit 0 is the parity of
+// R.y and bit 1 means R.x = r + n (only possible when r + n < p)
+export const recoverPublicKey = (r: string, s: string, z: string, recoveryId: number): Point | null => {
+  const rBig = BigInt('0x' + r);
+  const sBig = BigInt('0x' + s);
+  const zBig = BigInt('0x' + z);
+  if (rBig === 0n || rBig >= N || sBig === 0n || sBig >= N || recoveryId < 0 || recoveryId > 3) {
     return null;
-  } catch (error) {
-    console.error('Private key recovery failed:', error);
+  }
+
+  const x = rBig + (recoveryId >> 1 ? N : 0n);
+  if (x >= P) return null;
+
+  let R: Point;
+  try {
+    R = liftX(x, (recoveryId & 1) === 1);
+  } catch {
     return null;
   }
+
+  const rInv = modInverse(rBig, N);
+  const Q = pointAdd(pointMultiply(sBig * rInv, R), pointMultiply(-zBig * rInv, G));
+  return Q.infinity ? null : Q;
 };
 
-// Extended Euclidean Algorithm for modular inverse
-function modInverse(a: bigint, m: bigint): bigint {
-  if (a < 0n) a = ((a % m) + m) % m;
-  
-  let [oldR, r] = [a, m];
-  let [oldS, s] = [1n, 0n];
-  
-  while (r !== 0n) {
-    const quotient = oldR / r;
-    [oldR, r] = [r, oldR - quotient * r];
-    [oldS, s] = [s, oldS - quotient * s];
+// Every public key that verifies the signature, one per valid recovery id
+export const recoverPublicKeys = (r: string, s: string, z: string): RecoveredPublicKey[] => {
+  const candidates: RecoveredPublicKey[] = [];
+  for (let recoveryId = 0; recoveryId < 4; recoveryId++) {
+    const point = recoverPublicKey(r, s, z, recoveryId);
+    if (point) {
+      candidates.push({ recoveryId, publicKey: encodePoint(point) });
+    }
   }
-  
-  if (oldR > 1n) throw new Error('Modular inverse does not exist');
-  if (oldS < 0n) oldS += m;
-  
-  return oldS;
-}
+  return candidates;
+};
+
+// Accepts a bare recovery id (0-3), a signed-message header (27-34, +4 for
+// compressed keys) or an EIP-155 v (chainId * 2 + 35 + recid)
+export const recoveryIdFromV = (v: number): number => {
+  if (v >= 35) return (v - 35) % 2;
+  if (v >= 27) return (v - 27) & 3;
+  if (v >= 0 && v <= 3) return v;
+  throw new Error(`Invalid recovery value v=${v}`);
+};
+
+// Fills publicKey/x for signatures that lack one: v picks the key directly, a
+// known x selects the matching candidate, and otherwise a signature sharing r
+// with another is tied to the single candidate key the two have in common
+export const attachRecoveredPublicKeys = (signatures: ECDSASignature[]): {
+  signatures: ECDSASignature[];
+  recovered: number;
+  unresolved: number;
+} => {
+  const candidates = signatures.map(sig => candidatePublicKeys(sig));
+  let recovered = 0;
+  let unresolved = 0;
 
-function generateMockHex(length: number): string {
-  const chars = '0123456789abcdef';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars[Math.floor(Math.random() * chars.length)];
+  const result = signatures.map((sig, i) => {
+    let keys = candidates[i];
+    if (!sig.publicKey && keys.length > 1) {
+      for (let j = 0; j < signatures.length; j++) {
+        if (j === i || signatures[j].r.toLowerCase() !== sig.r.toLowerCase()) continue;
+        const shared = keys.filter(key => candidates[j].includes(key));
+        if (shared.length === 1) {
+          keys = shared;
+          break;
+        }
+      }
+    }
+
+    if (sig.publicKey || !sig.s || !sig.z) return sig;
+    if (keys.length !== 1) {
+      unresolved++;
+      return sig;
+    }
+
+    recovered++;
+    return { ...sig, publicKey: keys[0], x: keys[0].slice(2) };
+  });
+
+  return { signatures: result, recovered, unresolved };
+};
+
+// Compressed keys a signature could belong to: its own key when known,
+// otherwise whatever recovery yields
+const candidatePublicKeys = (sig: ECDSASignature): string[] => {
+  if (sig.publicKey) {
+    try {
+      return [encodePoint(decodePoint(sig.publicKey))];
+    } catch {
+      return [];
+    }
   }
-  return result;
-}
+  if (!sig.r || !sig.s || !sig.z) return [];
+
+  if (sig.v !== undefined) {
+    const point = recoverPublicKey(sig.r, sig.s, sig.z, recoveryIdFromV(sig.v));
+    return point ? [encodePoint(point)] : [];
+  }
+
+  const keys = recoverPublicKeys(sig.r, sig.s, sig.z).map(candidate => candidate.publicKey);
+  const x = sig.x?.toLowerCase();
+  return x ? keys.filter(key => key.slice(2) === x) : keys;
+};
 
 // Hash function for Bitcoin message signing
 export const hashMessage = (message: string): string => {
@@ -149,66 +342,8 @@ export const formatPrivateKey = (privateKey: string): {
   };
 };
 
-// Base58 encoding for WIF format
-const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-
-function base58Encode(buffer: Uint8Array): string {
-  let num = BigInt('0x' + Array.from(buffer).map(b => b.toString(16).padStart(2, '0')).join(''));
-  let encoded = '';
-  
-  while (num > 0) {
-    const remainder = num % 58n;
-    num = num / 58n;
-    encoded = BASE58_ALPHABET[Number(remainder)] + encoded;
-  }
-  
-  // Add leading zeros
-  for (let i = 0; i < buffer.length && buffer[i] === 0; i++) {
-    encoded = '1' + encoded;
-  }
-  
-  return encoded;
-}
-
-function sha256(data: Uint8Array): Uint8Array {
-  const hash = CryptoJS.SHA256(CryptoJS.lib.WordArray.create(data as any));
-  const hashArray = new Uint8Array(32);
-  for (let i = 0; i < 8; i++) {
-    const word = hash.words[i];
-    hashArray[i * 4] = (word >>> 24) & 0xff;
-    hashArray[i * 4 + 1] = (word >>> 16) & 0xff;
-    hashArray[i * 4 + 2] = (word >>> 8) & 0xff;
-    hashArray[i * 4 + 3] = word & 0xff;
-  }
-  return hashArray;
-}
-
+// WIF: 0x80 version byte, the key, and 0x01 when it pairs with a compressed pubkey
 function encodeWIF(privateKeyHex: string, compressed: boolean): string {
-  const privateKeyBytes = new Uint8Array(privateKeyHex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
-  
-  // Add version byte (0x80 for mainnet)
-  const versionByte = new Uint8Array([0x80]);
-  let payload = new Uint8Array(versionByte.length + privateKeyBytes.length);
-  payload.set(versionByte);
-  payload.set(privateKeyBytes, versionByte.length);
-  
-  // Add compression flag if compressed
-  if (compressed) {
-    const temp = new Uint8Array(payload.length + 1);
-    temp.set(payload);
-    temp[temp.length - 1] = 0x01;
-    payload = temp;
-  }
-  
-  // Double SHA256 for checksum
-  const hash1 = sha256(payload);
-  const hash2 = sha256(hash1);
-  const checksum = hash2.slice(0, 4);
-  
-  // Combine payload and checksum
-  const result = new Uint8Array(payload.length + checksum.length);
-  result.set(payload);
-  result.set(checksum, payload.length);
-  
-  return base58Encode(result);
-};
\ No newline at end of file
+  const payload = concatBytes(new Uint8Array([0x80]), hexToBytes(privateKeyHex.padStart(64, '0')));
+  return base58CheckEncode(compressed ? concatBytes(payload, new Uint8Array([0x01])) : payload);
+}
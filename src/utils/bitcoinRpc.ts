@@ -0,0 +1,294 @@
+import { UTXO } from '../types/blockchain';
+import { ChainBlock, ChainDataProvider, ChainTransaction, Prevout } from '../types/chain';
+import { RpcBlockHeader, RpcChain, RpcConfig, RpcRawTransaction, RpcRetryPolicy } from '../types/rpc';
+import { Network, normalizeAddress } from './address';
+
+const DEFAULT_PORTS: Record<RpcChain, string> = {
+  main: '8332',
+  test: '18332',
+  signet: '38332',
+  regtest: '18443'
+};
+
+// Bitcoin Core's section names for each chain
+const CONF_SECTIONS: Record<string, RpcChain> = {
+  main: 'main',
+  test: 'test',
+  testnet: 'test',
+  signet: 'signet',
+  regtest: 'regtest'
+};
+
+export const DEFAULT_RETRY_POLICY: RpcRetryPolicy = {
+  retries: 3,
+  retryDelayMs: 1000,
+  timeoutMs: 30000
+};
+
+// RPC_IN_WARMUP: the node is up but still loading the block index
+const RPC_IN_WARMUP = -28;
+
+// Port of pivot.py's asp_from_config: rpcuser/rpcpassword/rpcport/rpcconnect,
+// plus the chain flags and [section] blocks bitcoin.conf allows
+export const parseBitcoinConf = (content: string): RpcConfig => {
+  const global: Record<string, string> = {};
+  const sections: Record<string, Record<string, string>> = {};
+  let section: string | null = null;
+
+  content.split('\n').forEach(raw => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const header = line.match(/^\[(\w+)\]$/);
+    if (header) {
+      section = header[1];
+      return;
+    }
+
+    const eq = line.indexOf('=');
+    if (eq === -1) return;
+    const key = line.slice(0, eq).trim();
+    const value = line.slice(eq + 1).trim();
+
+    // Keys may also carry the section as a prefix, e.g. test.rpcport=18332
+    const dot = key.indexOf('.');
+    if (dot !== -1) {
+      const prefix = key.slice(0, dot);
+      (sections[prefix] ??= {})[key.slice(dot + 1)] = value;
+    } else if (section) {
+      (sections[section] ??= {})[key] = value;
+    } else {
+      global[key] = value;
+    }
+  });
+
+  let chain: RpcChain = 'main';
+  if (global.chain && CONF_SECTIONS[global.chain]) chain = CONF_SECTIONS[global.chain];
+  else if (global.regtest === '1') chain = 'regtest';
+  else if (global.signet === '1') chain = 'signet';
+  else if (global.testnet === '1') chain = 'test';
+
+  const settings = { ...global, ...sections[chain] };
+  const host = settings.rpcconnect || '127.0.0.1';
+  const port = settings.rpcport || DEFAULT_PORTS[chain];
+
+  return {
+    url: `http://${host.includes(':') && !host.startsWith('[') ? `[${host}]` : host}:${port}`,
+    user: settings.rpcuser,
+    password: settings.rpcpassword,
+    chain
+  };
+};
+
+// Transport-level failure worth another attempt
+class RetryableError extends Error {}
+
+// JSON-RPC client for Bitcoin Core. Transport failures (refused connections,
+// timeouts, 5xx without an RPC error body) are retried after a delay, and
+// onReconnect may hand back fresh settings first, the way pivot.py re-reads
+// its config in reconnect_rpc. RPC errors such as unknown txids are not retried.
+export class BitcoinRpcProvider implements ChainDataProvider {
+  readonly backend = 'rpc' as const;
+  private config: RpcConfig;
+  private policy: RpcRetryPolicy;
+  private onReconnect?: () => RpcConfig | Promise<RpcConfig>;
+  private fetchImpl: typeof fetch;
+  private requestId = 0;
+
+  constructor(
+    config: RpcConfig,
+    options: {
+      policy?: Partial<RpcRetryPolicy>;
+      onReconnect?: () => RpcConfig | Promise<RpcConfig>;
+      fetchImpl?: typeof fetch;
+    } = {}
+  ) {
+    this.config = config;
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+    this.onReconnect = options.onReconnect;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  get chain(): RpcChain {
+    return this.config.chain;
+  }
+
+  // address.ts only knows mainnet and testnet; signet and regtest use test prefixes
+  get network(): Network {
+    return this.config.chain === 'main' ? 'mainnet' : 'testnet';
+  }
+
+  async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.policy.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.policy.retryDelayMs));
+        await this.reconnect();
+      }
+
+      try {
+        return await this.send<T>(method, params);
+      } catch (error) {
+        if (!(error instanceof RetryableError)) throw error;
+        lastError = error;
+      }
+    }
+
+    throw new Error(`${method} failed after ${this.policy.retries + 1} attempts: ${lastError?.message}`);
+  }
+
+  async getRawTransaction(txid: string): Promise<RpcRawTransaction> {
+    return this.call<RpcRawTransaction>('getrawtransaction', [txid, true]);
+  }
+
+  async getTransactionHex(txid: string): Promise<string> {
+    return this.call<string>('getrawtransaction', [txid, false]);
+  }
+
+  async getTransactionHeight(txid: string): Promise<number | undefined> {
+    const tx = await this.getRawTransaction(txid);
+    return tx.blockhash ? (await this.getBlockHeader(tx.blockhash)).height : undefined;
+  }
+
+  async getBlockHeader(blockHash: string): Promise<RpcBlockHeader> {
+    return this.call<RpcBlockHeader>('getblockheader', [blockHash, true]);
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return this.call<string>('getblockhash', [height]);
+  }
+
+  async getBlockCount(): Promise<number> {
+    return this.call<number>('getblockcount');
+  }
+
+  // The output an input spends, with its value converted to satoshis
+  async getPrevout(txid: string, vout: number): Promise<Prevout> {
+    const tx = await this.getRawTransaction(txid);
+    const output = tx.vout.find(candidate => candidate.n === vout);
+    if (!output) {
+      throw new Error(`Transaction ${txid} has no output ${vout}`);
+    }
+    return { scriptPubKey: output.scriptPubKey.hex, value: btcToSatoshis(output.value) };
+  }
+
+  async getTransaction(txid: string): Promise<ChainTransaction> {
+    const tx = await this.getRawTransaction(txid);
+    const header = tx.blockhash ? await this.getBlockHeader(tx.blockhash) : undefined;
+    return {
+      txid: tx.txid,
+      hex: tx.hex,
+      blockHash: tx.blockhash,
+      blockHeight: header?.height,
+      confirmations: tx.confirmations ?? 0,
+      timestamp: tx.blocktime !== undefined ? tx.blocktime * 1000 : undefined
+    };
+  }
+
+  // getblock verbosity 2 carries every transaction's hex
+  async getBlock(hashOrHeight: string | number): Promise<ChainBlock> {
+    const hash = typeof hashOrHeight === 'number' ? await this.getBlockHash(hashOrHeight) : hashOrHeight;
+    const block = await this.call<RpcBlockHeader & { tx: RpcRawTransaction[] }>('getblock', [hash, 2]);
+    return {
+      hash: block.hash,
+      height: block.height,
+      version: block.version,
+      previousBlockHash: block.previousblockhash ?? '0'.repeat(64),
+      merkleRoot: block.merkleroot,
+      time: block.time,
+      bits: block.bits,
+      nonce: block.nonce,
+      transactions: block.tx.map(tx => ({
+        txid: tx.txid,
+        hex: tx.hex,
+        blockHash: block.hash,
+        blockHeight: block.height,
+        confirmations: block.confirmations,
+        timestamp: block.time * 1000
+      }))
+    };
+  }
+
+  async getAddressHistory(): Promise<ChainTransaction[]> {
+    throw new Error('Bitcoin Core keeps no address index; use an Esplora backend or a fixture for address history');
+  }
+
+  // scantxoutset walks the UTXO set, so it works without an address index
+  async getUtxos(address: string): Promise<UTXO[]> {
+    const target = normalizeAddress(address);
+    const scan = await this.call<{
+      height: number;
+      unspents: { txid: string; vout: number; scriptPubKey: string; amount: number; height: number }[];
+    }>('scantxoutset', ['start', [`addr(${target})`]]);
+
+    return scan.unspents.map(unspent => ({
+      txHash: unspent.txid,
+      outputIndex: unspent.vout,
+      value: btcToSatoshis(unspent.amount),
+      address: target,
+      scriptPubKey: unspent.scriptPubKey,
+      confirmations: scan.height - unspent.height + 1,
+      spendable: true
+    }));
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.onReconnect) {
+      this.config = await this.onReconnect();
+    }
+  }
+
+  private async send<T>(method: string, params: unknown[]): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.user !== undefined) {
+      headers.Authorization = `Basic ${btoa(`${this.config.user}:${this.config.password ?? ''}`)}`;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(this.config.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ jsonrpc: '1.0', id: ++this.requestId, method, params }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `timed out after ${this.policy.timeoutMs} ms`
+        : error instanceof Error ? error.message : 'connection failed';
+      throw new RetryableError(message);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      if (this.onReconnect) throw new RetryableError('RPC authentication failed');
+      throw new Error('RPC authentication failed; check rpcuser and rpcpassword');
+    }
+
+    // Core answers RPC errors with HTTP 500/404 and a JSON error body
+    let body: { result: T; error: { code: number; message: string } | null };
+    try {
+      body = await response.json();
+    } catch {
+      const message = `HTTP ${response.status} ${response.statusText}`.trim();
+      if (response.status >= 500) throw new RetryableError(message);
+      throw new Error(message);
+    }
+
+    if (body.error) {
+      const message = `RPC error ${body.error.code}: ${body.error.message}`;
+      if (body.error.code === RPC_IN_WARMUP) throw new RetryableError(message);
+      throw new Error(message);
+    }
+
+    return body.result;
+  }
+}
+
+// RPC amounts are BTC with 8 decimals
+export const btcToSatoshis = (btc: number): number => Math.round(btc * 100000000);
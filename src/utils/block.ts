@@ -0,0 +1,258 @@
+import { Transaction } from '../types/bitcoin';
+import { Block } from '../types/blockchain';
+import { Network } from './address';
+import { describeTransaction } from './chainData';
+import { bytesToHex, concatBytes, hash256, hexToBytes, reverseHex } from './hash';
+import { ByteReader, decodeScript, encodeVarInt, readTransaction } from './transaction';
+
+const HEADER_SIZE = 80;
+
+// Network magic that frames each block in blk*.dat
+const BLK_MAGICS: Record<string, string> = {
+  f9beb4d9: 'mainnet',
+  '0b110907': 'testnet3',
+  '1c163f28': 'testnet4',
+  '0a03cf40': 'signet',
+  fabfb5da: 'regtest'
+};
+
+const GENESIS_PARENT = '0'.repeat(64);
+
+export interface ParsedBlock {
+  hash: string;
+  version: number;
+  previousBlockHash: string;
+  merkleRoot: string;
+  time: number; // seconds
+  bits: string;
+  nonce: number;
+  size: number; // serialized bytes
+  transactions: Transaction[];
+}
+
+// Pairwise double-SHA256 up to the root, repeating the last hash of odd levels
+export const computeMerkleRoot = (txids: string[]): string => {
+  if (txids.length === 0) {
+    throw new Error('A block needs at least one transaction');
+  }
+
+  let level = txids.map(txid => hexToBytes(reverseHex(txid)));
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hash256(concatBytes(level[i], level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+  return reverseHex(bytesToHex(level[0]));
+};
+
+// Difficulty relative to the minimum (bits 1d00ffff)
+export const bitsToDifficulty = (bits: string): number => {
+  const compact = parseInt(bits, 16);
+  const exponent = compact >>> 24;
+  const mantissa = compact & 0xffffff;
+  return (0xffff / mantissa) * Math.pow(256, 0x1d - exponent);
+};
+
+// Reads one serialized block (80-byte header, then the transactions) at the
+// reader's offset and checks the transactions against the header's merkle root
+export const readBlock = (reader: ByteReader): ParsedBlock => {
+  const start = reader.offset;
+  const header = reader.readBytes(HEADER_SIZE);
+  const headerReader = new ByteReader(header);
+  const version = headerReader.readUInt32LE();
+  const previousBlockHash = reverseHex(bytesToHex(headerReader.readBytes(32)));
+  const merkleRoot = reverseHex(bytesToHex(headerReader.readBytes(32)));
+  const time = headerReader.readUInt32LE();
+  const bits = reverseHex(bytesToHex(headerReader.readBytes(4)));
+  const nonce = headerReader.readUInt32LE();
+
+  const count = reader.readVarInt();
+  const transactions: Transaction[] = [];
+  for (let i = 0; i < count; i++) {
+    transactions.push(readTransaction(reader));
+  }
+
+  const hash = reverseHex(bytesToHex(hash256(header)));
+  const computed = computeMerkleRoot(transactions.map(tx => tx.txid));
+  if (computed !== merkleRoot) {
+    throw new Error(`Block ${hash} merkle root mismatch: header has ${merkleRoot}, transactions hash to ${computed}`);
+  }
+
+  return {
+    hash,
+    version,
+    previousBlockHash,
+    merkleRoot,
+    time,
+    bits,
+    nonce,
+    size: reader.offset - start,
+    transactions
+  };
+};
+
+// Raw block hex, as `getblock <hash> 0` prints it
+export const parseBlock = (rawHex: string): ParsedBlock => {
+  const reader = new ByteReader(hexToBytes(rawHex.replace(/\s+/g, '')));
+  const block = readBlock(reader);
+
+  if (reader.remaining !== 0) {
+    throw new Error(`Unexpected ${reader.remaining} trailing bytes after block ${block.hash}`);
+  }
+  return block;
+};
+
+// BIP34: version 2+ blocks push their height first in the coinbase scriptSig.
+// Earlier blocks carry no height.
+export const coinbaseHeight = (block: ParsedBlock): number | null => {
+  const coinbase = block.transactions[0];
+  if (block.version < 2 || !coinbase) return null;
+
+  const first = decodeScript(coinbase.vin[0].scriptSig.hex)[0];
+  if (!first) return null;
+  // Small heights are encoded with OP_1..OP_16
+  if (first.opcode >= 0x51 && first.opcode <= 0x60) return first.opcode - 0x50;
+  if (!first.data || first.data.length === 0 || first.data.length > 4) return null;
+
+  return first.data.reduceRight((height, byte) => height * 256 + byte, 0);
+};
+
+// Bitcoin Core 28+ obfuscates block files with the 8-byte key in
+// blocks/xor.dat, XORed in from the start of each file
+export const deobfuscateBlockFile = (data: Uint8Array, xorKey: Uint8Array): Uint8Array => {
+  if (xorKey.length === 0 || xorKey.every(byte => byte === 0)) return data;
+
+  const plain = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    plain[i] = data[i] ^ xorKey[i % xorKey.length];
+  }
+  return plain;
+};
+
+// Every block in a blk*.dat file, in file order (which is not height order).
+// Each record is network magic, a little-endian length, then the block.
+export const parseBlkFile = (data: Uint8Array, xorKey?: Uint8Array): ParsedBlock[] => {
+  const reader = new ByteReader(xorKey ? deobfuscateBlockFile(data, xorKey) : data);
+  const blocks: ParsedBlock[] = [];
+
+  while (reader.remaining >= 8) {
+    const magic = bytesToHex(reader.readBytes(4));
+    // Core preallocates files, so the tail is zero padding
+    if (magic === '00000000') break;
+    if (!BLK_MAGICS[magic]) {
+      throw new Error(`Unknown block file magic ${magic} at byte ${reader.offset - 4}${xorKey ? '' : '; is the file XOR-obfuscated?'}`);
+    }
+
+    const length = reader.readUInt32LE();
+    const record = new ByteReader(reader.readBytes(length));
+    const block = readBlock(record);
+    if (record.remaining !== 0) {
+      throw new Error(`Block ${block.hash} is ${record.remaining} bytes shorter than its record`);
+    }
+    blocks.push(block);
+  }
+
+  return blocks;
+};
+
+// Heights for blocks read out of order: linked through previous-block
+// hashes from the genesis block or any block whose height is known, falling
+// back to the BIP34 coinbase height for blocks with no linked neighbour
+export const assignBlockHeights = (
+  blocks: ParsedBlock[],
+  known: Map<string, number> = new Map()
+): Map<string, number> => {
+  const heights = new Map<string, number>();
+  const byHash = new Map(blocks.map(block => [block.hash, block]));
+  const children = new Map<string, ParsedBlock[]>();
+  blocks.forEach(block => {
+    const siblings = children.get(block.previousBlockHash);
+    if (siblings) siblings.push(block);
+    else children.set(block.previousBlockHash, [block]);
+  });
+
+  const propagate = (queue: ParsedBlock[]) => {
+    while (queue.length > 0) {
+      const block = queue.pop()!;
+      const height = heights.get(block.hash)!;
+      (children.get(block.hash) ?? []).forEach(child => {
+        if (heights.has(child.hash)) return;
+        heights.set(child.hash, height + 1);
+        queue.push(child);
+      });
+      const parent = byHash.get(block.previousBlockHash);
+      if (parent && !heights.has(parent.hash) && height > 0) {
+        heights.set(parent.hash, height - 1);
+        queue.push(parent);
+      }
+    }
+  };
+
+  const linked = blocks.filter(block => {
+    const parentHeight = known.get(block.previousBlockHash);
+    const height = block.previousBlockHash === GENESIS_PARENT ? 0
+      : parentHeight !== undefined ? parentHeight + 1
+      : known.get(block.hash);
+    if (height === undefined) return false;
+    heights.set(block.hash, height);
+    return true;
+  });
+  propagate(linked);
+
+  const fromCoinbase = blocks.filter(block => {
+    if (heights.has(block.hash)) return false;
+    const height = coinbaseHeight(block);
+    if (height === null) return false;
+    heights.set(block.hash, height);
+    return true;
+  });
+  propagate(fromCoinbase);
+
+  return heights;
+};
+
+// Fills the analyzer's Block type. Inputs spending earlier outputs of the same
+// block get their values; others need a chain backend, so their fee stays
+// unknown. Confirmations count up to tipHeight, by default the block itself.
+export const toBlock = (
+  parsed: ParsedBlock,
+  height: number,
+  network: Network,
+  tipHeight: number = height
+): Block => {
+  const inBlock = new Map(parsed.transactions.map(tx => [tx.txid, tx]));
+  const chain = {
+    blockHash: parsed.hash,
+    blockHeight: height,
+    confirmations: tipHeight - height + 1,
+    timestamp: parsed.time * 1000
+  };
+
+  const transactions = parsed.transactions.map(tx => {
+    const prevouts = tx.vin.map(input => {
+      const output = inBlock.get(input.txid)?.vout[input.vout];
+      return output ? { scriptPubKey: output.scriptPubKey.hex, value: output.value } : undefined;
+    });
+    return describeTransaction(tx, prevouts, network, chain);
+  });
+
+  const overhead = HEADER_SIZE + encodeVarInt(transactions.length).length;
+
+  return {
+    hash: parsed.hash,
+    height,
+    version: parsed.version,
+    previousBlockHash: parsed.previousBlockHash,
+    merkleRoot: parsed.merkleRoot,
+    timestamp: parsed.time * 1000,
+    bits: parsed.bits,
+    nonce: parsed.nonce,
+    difficulty: bitsToDifficulty(parsed.bits),
+    size: parsed.size,
+    weight: overhead * 4 + transactions.reduce((sum, tx) => sum + tx.weight, 0),
+    transactionCount: transactions.length,
+    transactions
+  };
+};
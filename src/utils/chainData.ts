@@ -0,0 +1,241 @@
+import { Transaction } from '../types/bitcoin';
+import {
+  Address,
+  BlockchainTransaction,
+  RiskAssessment,
+  RiskFactor,
+  TransactionFlow,
+  TransactionOutput
+} from '../types/blockchain';
+import { ChainDataProvider, ChainTransaction, Prevout } from '../types/chain';
+import { Network, normalizeAddress, scriptToAddress } from './address';
+import { classifyScript, parseTransaction, serializeTransaction } from './transaction';
+
+// classifyScript's (Bitcoin Core) type names
+const OUTPUT_TYPES: Record<string, TransactionOutput['type']> = {
+  pubkey: 'P2PK',
+  pubkeyhash: 'P2PKH',
+  scripthash: 'P2SH',
+  witness_v0_keyhash: 'P2WPKH',
+  witness_v0_scripthash: 'P2WSH',
+  witness_v1_taproot: 'P2TR',
+  multisig: 'MULTISIG',
+  nulldata: 'OP_RETURN'
+};
+
+const MAX_FLOW_FRONTIER = 5;
+
+export const isCoinbaseInput = (txid: string): boolean => /^0{64}$/.test(txid);
+
+// Prevouts for every input, in input order; coinbase inputs have none
+export const fetchPrevouts = async (
+  provider: ChainDataProvider,
+  tx: Transaction
+): Promise<(Prevout | undefined)[]> => {
+  return Promise.all(tx.vin.map(input => {
+    return isCoinbaseInput(input.txid) ? undefined : provider.getPrevout(input.txid, input.vout);
+  }));
+};
+
+// Blockchain analyzer view of a parsed transaction. Input values and
+// addresses come from the prevouts; without all of them the fee is unknown.
+export const describeTransaction = (
+  tx: Transaction,
+  prevouts: (Prevout | undefined)[],
+  network: Network,
+  chain: Omit<ChainTransaction, 'txid' | 'hex'>
+): BlockchainTransaction => {
+  const isCoinbase = tx.vin.some(input => isCoinbaseInput(input.txid));
+  const complete = tx.vin.every((input, i) => isCoinbaseInput(input.txid) || prevouts[i] !== undefined);
+  const inputValue = prevouts.reduce((sum, prevout) => sum + (prevout?.value ?? 0), 0);
+  const outputValue = tx.vout.reduce((sum, output) => sum + output.value, 0);
+  const baseSize = serializeTransaction(tx, false).length;
+  const totalSize = tx.hex.length / 2;
+
+  return {
+    hash: tx.txid,
+    version: tx.version,
+    lockTime: tx.locktime,
+    inputs: tx.vin.map((input, i) => ({
+      previousTxHash: input.txid,
+      previousTxIndex: input.vout,
+      scriptSig: input.scriptSig.hex,
+      sequence: input.sequence,
+      witness: input.witness.length > 0 ? input.witness : undefined,
+      value: prevouts[i]?.value,
+      address: prevouts[i] ? scriptToAddress(prevouts[i]!.scriptPubKey, network) ?? undefined : undefined
+    })),
+    outputs: tx.vout.map(output => ({
+      value: output.value,
+      scriptPubKey: output.scriptPubKey.hex,
+      address: scriptToAddress(output.scriptPubKey.hex, network) ?? undefined,
+      type: OUTPUT_TYPES[classifyScript(output.scriptPubKey.hex)] ?? 'NONSTANDARD'
+    })),
+    size: totalSize,
+    weight: baseSize * 3 + totalSize,
+    fee: isCoinbase ? 0 : complete ? inputValue - outputValue : undefined,
+    confirmations: chain.confirmations,
+    blockHash: chain.blockHash,
+    blockHeight: chain.blockHeight,
+    timestamp: chain.timestamp
+  };
+};
+
+export const fetchBlockchainTransaction = async (
+  provider: ChainDataProvider,
+  txid: string
+): Promise<BlockchainTransaction> => {
+  const chainTx = await provider.getTransaction(txid.trim().toLowerCase());
+  const tx = parseTransaction(chainTx.hex);
+  return describeTransaction(tx, await fetchPrevouts(provider, tx), provider.network, chainTx);
+};
+
+// Per-transaction amounts received by and spent from one address
+interface AddressMovement {
+  chainTx: ChainTransaction;
+  tx: Transaction;
+  received: number;
+  sent: number;
+  spends: boolean;
+}
+
+const loadMovements = async (provider: ChainDataProvider, address: string): Promise<AddressMovement[]> => {
+  const target = normalizeAddress(address);
+  const history = await provider.getAddressHistory(target);
+
+  return Promise.all(history.map(async chainTx => {
+    const tx = parseTransaction(chainTx.hex);
+    const prevouts = await fetchPrevouts(provider, tx);
+    const addressOf = (script: string) => scriptToAddress(script, provider.network);
+
+    const received = tx.vout
+      .filter(output => addressOf(output.scriptPubKey.hex) === target)
+      .reduce((sum, output) => sum + output.value, 0);
+    const ours = prevouts.filter(prevout => prevout && addressOf(prevout.scriptPubKey) === target);
+    const sent = ours.reduce((sum, prevout) => sum + prevout!.value, 0);
+
+    return { chainTx, tx, received, sent, spends: ours.length > 0 };
+  }));
+};
+
+export const summarizeAddress = async (provider: ChainDataProvider, address: string): Promise<Address> => {
+  const movements = await loadMovements(provider, address);
+  const confirmed = movements.filter(movement => movement.chainTx.confirmations > 0);
+  const pending = movements.filter(movement => movement.chainTx.confirmations === 0);
+  const timestamps = confirmed
+    .map(movement => movement.chainTx.timestamp)
+    .filter((timestamp): timestamp is number => timestamp !== undefined);
+
+  const totalReceived = confirmed.reduce((sum, movement) => sum + movement.received, 0);
+  const totalSent = confirmed.reduce((sum, movement) => sum + movement.sent, 0);
+
+  return {
+    address: normalizeAddress(address),
+    balance: totalReceived - totalSent,
+    totalReceived,
+    totalSent,
+    transactionCount: movements.length,
+    unconfirmedBalance: pending.reduce((sum, movement) => sum + movement.received - movement.sent, 0),
+    firstSeen: timestamps.length > 0 ? Math.min(...timestamps) : undefined,
+    lastSeen: timestamps.length > 0 ? Math.max(...timestamps) : undefined
+  };
+};
+
+// Follows the coins an address spends, hop by hop, through its history
+export const traceTransactionFlow = async (
+  provider: ChainDataProvider,
+  startAddress: string,
+  depth: number = 3
+): Promise<TransactionFlow[]> => {
+  const flows: TransactionFlow[] = [];
+  const seen = new Set<string>();
+  let currentAddresses = [normalizeAddress(startAddress)];
+
+  for (let hop = 0; hop < depth && currentAddresses.length > 0; hop++) {
+    const nextAddresses: string[] = [];
+
+    for (const addr of currentAddresses) {
+      const movements = await loadMovements(provider, addr);
+
+      movements.filter(movement => movement.spends).forEach(({ tx, chainTx }) => {
+        tx.vout.forEach((output, index) => {
+          const toAddress = scriptToAddress(output.scriptPubKey.hex, provider.network);
+          const key = `${tx.txid}:${index}`;
+          if (!toAddress || toAddress === addr || seen.has(key)) return;
+
+          seen.add(key);
+          nextAddresses.push(toAddress);
+          flows.push({
+            fromAddress: addr,
+            toAddress,
+            value: output.value,
+            txHash: tx.txid,
+            timestamp: chainTx.timestamp ?? 0,
+            hops: hop + 1
+          });
+        });
+      });
+    }
+
+    currentAddresses = [...new Set(nextAddresses)].slice(0, MAX_FLOW_FRONTIER); // Limit to prevent explosion
+  }
+
+  return flows;
+};
+
+// Heuristic risk factors computed from the address's own history
+export const assessAddressRisk = async (provider: ChainDataProvider, address: string): Promise<RiskAssessment> => {
+  const movements = await loadMovements(provider, address);
+  const amounts = movements.filter(movement => movement.received > 0).map(movement => movement.received);
+
+  // CoinJoin shape: three or more outputs sharing one value
+  const coinJoins = movements.filter(({ tx }) => {
+    const counts = new Map<number, number>();
+    tx.vout.forEach(output => counts.set(output.value, (counts.get(output.value) ?? 0) + 1));
+    return [...counts.values()].some(count => count >= 3);
+  });
+  const roundAmounts = amounts.filter(amount => amount % 1000000 === 0);
+
+  const riskFactors: RiskFactor[] = [
+    {
+      type: 'High Transaction Volume',
+      description: 'Address shows unusually high transaction volume',
+      severity: Math.min(100, movements.length * 2),
+      evidence: [`${movements.length} transactions in history`]
+    },
+    {
+      type: 'Round Amounts',
+      description: 'Received amounts are round multiples of 0.01 BTC',
+      severity: amounts.length > 0 ? Math.round((roundAmounts.length / amounts.length) * 60) : 0,
+      evidence: [`${roundAmounts.length} of ${amounts.length} received amounts are round`]
+    },
+    {
+      type: 'Mixing Service',
+      description: 'Potential interaction with mixing services',
+      severity: Math.min(100, coinJoins.length * 40),
+      evidence: coinJoins.length > 0
+        ? coinJoins.slice(0, 3).map(({ tx }) => `CoinJoin-shaped transaction ${tx.txid.substring(0, 16)}...`)
+        : ['No equal-output transactions']
+    }
+  ];
+
+  const totalRisk = riskFactors.reduce((sum, factor) => sum + factor.severity, 0) / riskFactors.length;
+
+  let riskLevel: RiskAssessment['riskLevel'];
+  if (totalRisk < 25) riskLevel = 'LOW';
+  else if (totalRisk < 50) riskLevel = 'MEDIUM';
+  else if (totalRisk < 75) riskLevel = 'HIGH';
+  else riskLevel = 'CRITICAL';
+
+  return {
+    riskScore: Math.round(totalRisk),
+    riskLevel,
+    factors: riskFactors,
+    recommendations: [
+      'Enhanced due diligence recommended',
+      'Monitor for suspicious activity patterns',
+      'Consider additional verification requirements',
+      'Review transaction history for compliance'
+    ]
+  };
+};
@@ -1,33 +1,51 @@
 import { 
   DenovoTransaction, 
+  DenovoInput,
   DenovoSignature, 
   DenovoVulnerability, 
   DenovoAnalysisResult, 
   DenovoBatchResult, 
-  DenovoConfig 
+  DenovoConfig,
+  DenovoRecoveredKey,
+  DenovoUntestedCheck
 } from '../types/denovo';
-
-// Secp256k1 curve parameters
-const N = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
-const HALF_N = N / 2n;
+import { Transaction } from '../types/bitcoin';
+import { ChainDataProvider } from '../types/chain';
+import {
+  classifyScript,
+  decodeScript,
+  isPublicKeyHex,
+  isStrictDER,
+  parseDERSignature,
+  parseTransaction,
+  serializeTransaction
+} from './transaction';
+import { computeInputSighash } from './sighash';
+import { bytesToHex } from './hash';
+import { decodePoint, HALF_N } from './secp256k1';
+import { publicKeyToAddress, scriptToAddress } from './address';
+import { fetchPrevouts } from './chainData';
+import { extractTaprootSignatures, findSchnorrNonceReuse, splitTaprootWitness, TAPSCRIPT_LEAF_VERSION } from './taproot';
+import { findRelatedNonces, formatNonceRelation, parseNonceRelation } from './relatedNonce';
+import { findPolynonces } from './polynonce';
+import { HnpSample, solveHnp } from './hnp';
+import { findWeakNonces, getWeakNonceTable } from './weakNonce';
+import { findNonceDerivationMistakes, NONCE_DERIVATION_MISTAKES, UNTESTABLE_NONCE_DERIVATIONS } from './nonceDerivation';
+import { runNonceTestSuite, STRONG_EVIDENCE_P_VALUE } from './nonceStatistics';
+
+// Signing-order distance within which a batch pairs signatures for the
+// related-nonce search; all pairs of a long address history would be too slow
+const POOLED_RELATED_PAIR_DISTANCE = 8;
 
 export const analyzeDenovoTransaction = async (
-  txid: string, 
+  txidOrHex: string, 
   config: DenovoConfig,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  prevouts?: DenovoInput['prevout'][],
+  provider?: ChainDataProvider | null
 ): Promise<DenovoAnalysisResult> => {
   const startTime = Date.now();
-  
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1500));
-  
-  if (signal?.aborted) {
-    throw new Error('Analysis aborted');
-  }
-
-  // Mock transaction data - in real implementation, this would fetch from Bitcoin RPC
-  const transaction = generateMockTransaction(txid);
-  const signatures = extractSignatures(transaction);
+  const { transaction, signatures, errors } = await loadDenovoTransaction(txidOrHex, signal, prevouts, provider);
   const vulnerabilities = await detectVulnerabilities(signatures, config);
   const riskScore = calculateRiskScore(vulnerabilities);
 
@@ -36,161 +54,505 @@ export const analyzeDenovoTransaction = async (
     signatures,
     vulnerabilities,
     riskScore,
+    untestedChecks: listUntestedChecks(config),
+    errors,
     analysisTime: Date.now() - startTime
   };
 };
 
+// Parses the transaction and extracts its signatures. Bare txids, missing
+// prevouts and the block height come from the provider.
+const loadDenovoTransaction = async (
+  txidOrHex: string,
+  signal?: AbortSignal,
+  prevouts?: DenovoInput['prevout'][],
+  provider?: ChainDataProvider | null
+): Promise<{ transaction: DenovoTransaction; signatures: DenovoSignature[]; errors: string[] }> => {
+  const isRawTransaction = txidOrHex.length > 64 && /^[0-9a-fA-F]+$/.test(txidOrHex);
+
+  if (!isRawTransaction && !provider) {
+    throw new Error('Looking up a txid needs a chain data backend; paste the raw transaction hex instead');
+  }
+
+  const txid = txidOrHex.toLowerCase();
+  const tx = parseTransaction(isRawTransaction ? txidOrHex : await provider!.getTransactionHex(txid));
+  const blockHeight = isRawTransaction ? undefined : await provider!.getTransactionHeight(txid);
+  if (provider && (!prevouts || prevouts.length === 0)) {
+    prevouts = await fetchPrevouts(provider, tx);
+  }
+
+  if (signal?.aborted) {
+    throw new Error('Analysis aborted');
+  }
+
+  const transaction = { ...toDenovoTransaction(tx, prevouts), blockHeight };
+  return { transaction, ...extractSignatures(transaction) };
+};
+
+// Unconfirmed or unknown heights sort last; equal heights keep their order
+const compareHeights = (a?: number, b?: number): number => {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a - b;
+};
+
+// Transactions are checked one signature at a time as they load; the checks
+// that need several signatures by one key run once at the end over every
+// signature of the batch, in signing order (block height, then as listed)
 export const analyzeDenovoBatch = async (
   txids: string[],
   config: DenovoConfig,
   signal?: AbortSignal,
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  provider?: ChainDataProvider | null
 ): Promise<DenovoBatchResult> => {
   const startTime = Date.now();
-  const results: DenovoAnalysisResult[] = [];
+  const loaded: { blockHeight?: number; signatures: DenovoSignature[] }[] = [];
+  const errors: string[] = [];
   const vulnerabilityBreakdown: Record<string, number> = {};
   const riskDistribution: Record<string, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
 
+  const tally = (vulnerabilities: DenovoVulnerability[]) => {
+    vulnerabilities.forEach(vuln => {
+      vulnerabilityBreakdown[vuln.type] = (vulnerabilityBreakdown[vuln.type] || 0) + 1;
+      riskDistribution[vuln.severity]++;
+    });
+  };
+
   for (let i = 0; i < txids.length; i++) {
     if (signal?.aborted) {
       throw new Error('Batch analysis aborted');
     }
 
     try {
-      const result = await analyzeDenovoTransaction(txids[i], config, signal);
-      results.push(result);
-
-      // Update statistics
-      result.vulnerabilities.forEach(vuln => {
-        vulnerabilityBreakdown[vuln.type] = (vulnerabilityBreakdown[vuln.type] || 0) + 1;
-        riskDistribution[vuln.severity]++;
-      });
+      const { transaction, signatures, errors: inputErrors } = await loadDenovoTransaction(txids[i], signal, undefined, provider);
+      loaded.push({ blockHeight: transaction.blockHeight, signatures });
+      errors.push(...inputErrors);
+      tally(detectSignatureVulnerabilities(signatures, config));
 
       onProgress?.(i + 1, txids.length);
       
       // Small delay to prevent overwhelming the system
       await new Promise(resolve => setTimeout(resolve, 100));
     } catch (error) {
-      console.error(`Failed to analyze transaction ${txids[i]}:`, error);
+      errors.push(`${txids[i]}: ${error instanceof Error ? error.message : 'analysis failed'}`);
     }
   }
 
+  if (signal?.aborted) {
+    throw new Error('Batch analysis aborted');
+  }
+
+  const pooled = [...loaded]
+    .sort((a, b) => compareHeights(a.blockHeight, b.blockHeight))
+    .flatMap(entry => entry.signatures);
+  const pooledVulnerabilities = detectKeyVulnerabilities(pooled, config, { relatedPairDistance: POOLED_RELATED_PAIR_DISTANCE });
+  tally(pooledVulnerabilities);
+
   const totalVulnerabilities = Object.values(vulnerabilityBreakdown).reduce((sum, count) => sum + count, 0);
 
   return {
     totalTransactions: txids.length,
-    analyzedTransactions: results.length,
+    analyzedTransactions: loaded.length,
     totalVulnerabilities,
     vulnerabilityBreakdown,
     riskDistribution,
+    pooledSignatures: pooled.length,
+    pooledVulnerabilities,
+    untestedChecks: listUntestedChecks(config),
+    errors,
     processingTime: Date.now() - startTime
   };
 };
 
-const generateMockTransaction = (txid: string): DenovoTransaction => {
-  const inputCount = Math.floor(Math.random() * 3) + 1;
-  const outputCount = Math.floor(Math.random() * 3) + 1;
+// Build the analyzer's view of a parsed transaction; prevouts[i] supplies the
+// script and amount spent by input i, which segwit sighashes need
+export const toDenovoTransaction = (
+  tx: Transaction,
+  prevouts: DenovoInput['prevout'][] = []
+): DenovoTransaction => {
+  const baseSize = serializeTransaction(tx, false).length;
+  const totalSize = tx.hex.length / 2;
+  const inputValue = prevouts.reduce((sum, prevout) => sum + (prevout?.value || 0), 0);
+  const outputValue = tx.vout.reduce((sum, output) => sum + output.value, 0);
+  const allPrevoutsKnown = tx.vin.every((_, i) => prevouts[i]);
 
   return {
-    txid,
-    version: 1,
-    locktime: 0,
-    inputs: Array.from({ length: inputCount }, (_, i) => ({
-      txid: generateRandomHex(64),
-      vout: i,
-      scriptSig: generateRandomHex(Math.floor(Math.random() * 200) + 100),
-      sequence: 0xffffffff,
-      witness: Math.random() > 0.5 ? [generateRandomHex(144), generateRandomHex(66)] : undefined,
-      prevout: {
-        scriptPubKey: generateRandomHex(50),
-        value: Math.floor(Math.random() * 1000000) + 10000
-      }
+    txid: tx.txid,
+    version: tx.version,
+    locktime: tx.locktime,
+    inputs: tx.vin.map((input, i) => ({
+      txid: input.txid,
+      vout: input.vout,
+      scriptSig: input.scriptSig.hex,
+      sequence: input.sequence,
+      witness: input.witness.length > 0 ? input.witness : undefined,
+      prevout: prevouts[i]
     })),
-    outputs: Array.from({ length: outputCount }, () => ({
-      value: Math.floor(Math.random() * 1000000) + 10000,
-      scriptPubKey: generateRandomHex(50),
-      address: generateMockAddress()
+    outputs: tx.vout.map(output => ({
+      value: output.value,
+      scriptPubKey: output.scriptPubKey.hex
     })),
-    size: Math.floor(Math.random() * 1000) + 250,
-    weight: Math.floor(Math.random() * 4000) + 1000
+    size: totalSize,
+    weight: baseSize * 3 + totalSize,
+    fee: allPrevoutsKnown && tx.vin.length > 0 ? inputValue - outputValue : undefined
   };
 };
 
-const extractSignatures = (transaction: DenovoTransaction): DenovoSignature[] => {
+const toTransaction = (transaction: DenovoTransaction): Transaction => ({
+  txid: transaction.txid,
+  version: transaction.version,
+  locktime: transaction.locktime,
+  vin: transaction.inputs.map(input => ({
+    txid: input.txid,
+    vout: input.vout,
+    scriptSig: { asm: '', hex: input.scriptSig },
+    sequence: input.sequence,
+    witness: input.witness || []
+  })),
+  vout: transaction.outputs.map(output => ({
+    value: output.value,
+    scriptPubKey: { asm: '', hex: output.scriptPubKey, type: classifyScript(output.scriptPubKey) }
+  })),
+  hex: '',
+  segwit: transaction.inputs.some(input => input.witness && input.witness.length > 0)
+});
+
+// Inputs whose signatures cannot be read, or whose z cannot be computed, are
+// reported in errors so the checks that skip them are not read as passes
+const extractSignatures = (transaction: DenovoTransaction): { signatures: DenovoSignature[]; errors: string[] } => {
   const signatures: DenovoSignature[] = [];
+  const errors: string[] = [];
+  const tx = toTransaction(transaction);
+  const prevouts = transaction.inputs.map(input => input.prevout);
 
   transaction.inputs.forEach((input, index) => {
-    // Extract signature from scriptSig or witness
-    const r = generateRandomHex(64);
-    const s = generateRandomHex(64);
-    const z = generateRandomHex(64);
-    const publicKey = generateRandomHex(66);
-
-    signatures.push({
-      txid: transaction.txid,
-      inputIndex: index,
-      r,
-      s,
-      z,
-      publicKey,
-      address: generateMockAddress(),
-      scriptType: getRandomScriptType(),
-      sigHashType: Math.random() > 0.9 ? 0x03 : 0x01, // Mostly SIGHASH_ALL
-      isLowS: BigInt('0x' + s) <= HALF_N,
-      isDER: Math.random() > 0.05 // 95% are DER encoded
+    const scriptType = detectScriptType(input);
+
+    // Taproot inputs carry Schnorr signatures; the sighash needs every prevout
+    if (scriptType === 'P2TR') {
+      try {
+        extractTaprootSignatures(tx, index, prevouts).forEach(signature => {
+          signatures.push({
+            ...signature,
+            address: signatureAddress(input, scriptType, signature.publicKey),
+            scriptType,
+            scheme: 'SCHNORR',
+            isLowS: true,
+            isDER: false
+          });
+        });
+      } catch (error) {
+        errors.push(`${transaction.txid}:${index}: taproot signature extraction failed: ${error instanceof Error ? error.message : error}`);
+      }
+      return;
+    }
+
+    // Segwit inputs sign through the witness stack, legacy ones through scriptSig pushes
+    const items = input.witness && input.witness.length > 0 ? input.witness : scriptPushes(input.scriptSig);
+
+    let publicKeys = items.filter(isPublicKeyHex);
+    if (publicKeys.length === 0 && input.prevout && classifyScript(input.prevout.scriptPubKey) === 'pubkey') {
+      publicKeys = scriptPushes(input.prevout.scriptPubKey);
+    }
+    // Only single-key spends tie a signature to a key without verifying it
+    const publicKey = publicKeys.length === 1 ? publicKeys[0].toLowerCase() : '';
+
+    let zError = '';
+    items.forEach(item => {
+      let signature;
+      try {
+        signature = parseDERSignature(item);
+      } catch {
+        return;
+      }
+
+      let z = '';
+      if (!input.prevout) {
+        zError = 'the spent output (script and amount) is unknown';
+      } else {
+        try {
+          z = computeInputSighash(tx, index, input.prevout, signature.sigHashType);
+        } catch (error) {
+          zError = `the sighash failed: ${error instanceof Error ? error.message : error}`;
+        }
+      }
+
+      signatures.push({
+        txid: transaction.txid,
+        inputIndex: index,
+        r: signature.r,
+        s: signature.s,
+        z,
+        publicKey,
+        address: signatureAddress(input, scriptType, publicKey),
+        scriptType,
+        scheme: 'ECDSA',
+        sigHashType: signature.sigHashType,
+        isLowS: BigInt('0x' + signature.s) <= HALF_N,
+        isDER: isStrictDER(item)
+      });
     });
+
+    if (zError) {
+      errors.push(`${transaction.txid}:${index}: no message hash, so checks that need z skip this input; ${zError}`);
+    }
   });
 
-  return signatures;
+  return { signatures, errors };
+};
+
+const scriptPushes = (scriptHex: string): string[] => {
+  try {
+    return decodeScript(scriptHex).filter(chunk => chunk.data).map(chunk => bytesToHex(chunk.data!));
+  } catch {
+    return [];
+  }
+};
+
+// The spent output's address when known, otherwise the address implied by the
+// signing key for single-key script types
+const signatureAddress = (
+  input: DenovoInput,
+  scriptType: DenovoSignature['scriptType'],
+  publicKey: string
+): string => {
+  if (input.prevout) {
+    return scriptToAddress(input.prevout.scriptPubKey) || '';
+  }
+  if (!publicKey || !isPublicKeyHex(publicKey)) return '';
+
+  try {
+    const point = decodePoint(publicKey);
+    switch (scriptType) {
+      case 'P2PKH':
+        return publicKeyToAddress(point, 'P2PKH', publicKey.length === 66);
+      case 'P2WPKH':
+        return publicKeyToAddress(point, 'P2WPKH');
+      case 'P2SH':
+        return input.witness?.length === 2 ? publicKeyToAddress(point, 'P2SH-P2WPKH') : '';
+      default:
+        return '';
+    }
+  } catch {
+    return '';
+  }
+};
+
+const SCRIPT_TYPES: Record<string, DenovoSignature['scriptType']> = {
+  pubkeyhash: 'P2PKH',
+  pubkey: 'P2PK',
+  scripthash: 'P2SH',
+  witness_v0_keyhash: 'P2WPKH',
+  witness_v0_scripthash: 'P2WSH',
+  witness_v1_taproot: 'P2TR'
+};
+
+// Prefer the spent script; without it, infer the type from the spending data
+const detectScriptType = (input: DenovoInput): DenovoSignature['scriptType'] => {
+  if (input.prevout) {
+    const type = SCRIPT_TYPES[classifyScript(input.prevout.scriptPubKey)];
+    if (type) return type;
+  }
+
+  const pushes = scriptPushes(input.scriptSig);
+  if (input.witness && input.witness.length > 0) {
+    if (pushes.length > 0) return 'P2SH';
+    if (input.witness.length === 2 && isPublicKeyHex(input.witness[1])) return 'P2WPKH';
+
+    const taproot = splitTaprootWitness(input.witness);
+    if (taproot?.path === 'key' || taproot?.leafVersion === TAPSCRIPT_LEAF_VERSION) return 'P2TR';
+    return 'P2WSH';
+  }
+
+  if (pushes.length === 2 && isPublicKeyHex(pushes[1])) return 'P2PKH';
+  if (pushes.length === 1) return 'P2PK';
+  return 'P2SH';
 };
 
 const detectVulnerabilities = async (
   signatures: DenovoSignature[], 
   config: DenovoConfig
 ): Promise<DenovoVulnerability[]> => {
+  return [...detectKeyVulnerabilities(signatures, config), ...detectSignatureVulnerabilities(signatures, config)];
+};
+
+// Checks across signatures: a shared r, or several signatures by one key.
+// relatedPairDistance limits the pairwise related-nonce search to signatures
+// at most that many apart in signing order.
+const detectKeyVulnerabilities = (
+  signatures: DenovoSignature[],
+  config: DenovoConfig,
+  options: { relatedPairDistance?: number } = {}
+): DenovoVulnerability[] => {
   const vulnerabilities: DenovoVulnerability[] = [];
 
   // Check for duplicate nonces
   if (config.enableWeakNonceDetection) {
     const duplicateNonces = findDuplicateNonces(signatures);
     if (duplicateNonces.length > 0) {
+      // Schnorr reuse is solved directly through the BIP340 challenge
+      const recoveredKeys = findSchnorrNonceReuse(duplicateNonces.filter(sig => sig.scheme === 'SCHNORR'))
+        .map(({ publicKey, privateKey, nonce }) => ({ publicKey, privateKey, nonce }));
+
       vulnerabilities.push({
         type: 'DUPLICATE_NONCE',
         severity: 'CRITICAL',
         description: 'Multiple signatures found using the same nonce value, allowing private key recovery.',
         affectedSignatures: duplicateNonces,
         exploitability: 'High - Private keys can be recovered with simple mathematical operations.',
-        recommendation: 'Ensure proper nonce generation with cryptographically secure randomness.'
+        recommendation: 'Ensure proper nonce generation with cryptographically secure randomness.',
+        recoveredKeys: recoveredKeys.length > 0 ? recoveredKeys : undefined
       });
     }
   }
 
-  // Check for weak nonces
-  if (config.enableWeakNonceDetection) {
-    const weakNonces = detectWeakNonces(signatures);
-    if (weakNonces.length > 0) {
+  // Check for nonces tied to each other by k2 = a*k1 + b
+  if (config.enableRelatedNonceDetection) {
+    const recoveries = findRelatedNonces(signatures, {
+      maxOffset: config.relatedNonceMaxOffset,
+      maxPairDistance: options.relatedPairDistance,
+      relation: config.relatedNonceRelation ? parseNonceRelation(config.relatedNonceRelation) : undefined
+    });
+    if (recoveries.length > 0) {
+      const relations = [...new Set(recoveries.map(recovery => formatNonceRelation(recovery.relation)))];
       vulnerabilities.push({
-        type: 'WEAK_NONCE',
-        severity: 'HIGH',
-        description: 'Signatures detected with predictable or low-entropy nonces.',
-        affectedSignatures: weakNonces,
-        exploitability: 'Medium - Requires computational effort but feasible with modern hardware.',
-        recommendation: 'Use hardware security modules or proven cryptographic libraries for nonce generation.'
+        type: 'RELATED_NONCE',
+        severity: 'CRITICAL',
+        description: `Nonces of signatures by the same key are related (${relations.join('; ')}), allowing private key recovery.`,
+        affectedSignatures: recoveries.flatMap(recovery => recovery.signatures),
+        exploitability: 'High - Two signatures and the relation give the private key directly.',
+        recommendation: 'Never derive nonces from a counter or from previous nonces; use RFC 6979 or a secure random source.',
+        recoveredKeys: recoveries.map(({ publicKey, privateKey, nonce, relation }) => ({
+          publicKey,
+          privateKey,
+          nonce,
+          relation: formatNonceRelation(relation)
+        }))
+      });
+    }
+  }
+
+  // Check for nonces derived as a polynomial of the previous nonce
+  if (config.enablePolynonceDetection) {
+    const recoveries = findPolynonces(signatures, config.polynonceDegree);
+    if (recoveries.length > 0) {
+      vulnerabilities.push({
+        type: 'POLYNONCE',
+        severity: 'CRITICAL',
+        description: `Consecutive nonces of the same key follow a degree ${config.polynonceDegree} polynomial recurrence, allowing private key recovery.`,
+        affectedSignatures: recoveries.flatMap(recovery => recovery.signatures),
+        exploitability: `High - ${config.polynonceDegree + 3} ordered signatures give the private key as a polynomial root.`,
+        recommendation: 'Never derive a nonce from the previous one; use RFC 6979 or a secure random source.',
+        recoveredKeys: recoveries.map(({ publicKey, privateKey, nonce, degree, signatures: window }) => ({
+          publicKey,
+          privateKey,
+          nonce,
+          relation: `k[i+1] = f(k[i]), deg f = ${degree}, over ${window.length} signatures`
+        }))
       });
     }
   }
 
-  // Check for biased nonces
+  // Check for biased nonces: statistical tests over r and s whose failures
+  // are cited as evidence, plus the opt-in lattice attack under the assumed bias
   if (config.enableBiasedNonceDetection) {
-    const biasedNonces = detectBiasedNonces(signatures);
-    if (biasedNonces.length > 0) {
+    const biased = config.enableBiasedNonceLattice
+      ? detectBiasedNonces(signatures, config)
+      : { signatures: [], recoveredKeys: [] };
+    const failing = runNonceTestSuite(signatures, config.nonceTestSignificance).filter(result => !result.passed);
+
+    if (biased.recoveredKeys.length > 0 || failing.length > 0) {
+      const evidence = failing.flatMap(result => result.tests);
+      const failed = evidence.filter(test => !test.passed);
+      const strongest = failed.reduce((min, test) => Math.min(min, test.pValue), 1);
+      const findings: string[] = [];
+      if (biased.recoveredKeys.length > 0) {
+        findings.push(`Nonces with ${config.biasedNonceLeadingZeroBits} leading zero bits let a lattice (Hidden Number Problem) attack recover the private key.`);
+      }
+      if (failing.length > 0) {
+        findings.push(`${failing.length} key(s) fail statistical nonce tests at a family-wise significance of ${config.nonceTestSignificance}, corrected for every test and key (${[...new Set(failed.map(test => `${test.name} on ${test.target}`))].join(', ')}; smallest p = ${strongest.toExponential(2)}).`);
+      }
+
       vulnerabilities.push({
         type: 'BIASED_NONCE',
-        severity: 'MEDIUM',
-        description: 'Statistical bias detected in nonce generation patterns.',
-        affectedSignatures: biasedNonces,
-        exploitability: 'Low - Requires large sample sizes and advanced statistical analysis.',
-        recommendation: 'Review nonce generation algorithm for proper entropy distribution.'
+        severity: biased.recoveredKeys.length > 0
+          ? 'CRITICAL'
+          : strongest < STRONG_EVIDENCE_P_VALUE ? 'HIGH' : 'MEDIUM',
+        description: findings.join(' '),
+        affectedSignatures: [...new Set([...biased.signatures, ...failing.flatMap(result => result.signatures)])],
+        exploitability: biased.recoveredKeys.length > 0
+          ? 'High - Enough biased signatures give the private key after lattice reduction.'
+          : 'Medium - A biased generator may leak the key to a lattice attack once its bias is characterised.',
+        recommendation: 'Generate full-length nonces with RFC 6979 or a secure random source.',
+        recoveredKeys: biased.recoveredKeys.length > 0 ? biased.recoveredKeys : undefined,
+        evidence: evidence.length > 0 ? evidence : undefined
+      });
+    }
+  }
+
+  return vulnerabilities;
+};
+
+// Enabled checks that cover mistakes no signature can be tested for, one
+// entry per mistake
+const listUntestedChecks = (config: DenovoConfig): DenovoUntestedCheck[] =>
+  config.enableNonceDerivationCheck
+    ? UNTESTABLE_NONCE_DERIVATIONS.map(({ label, reason }) => ({ type: 'NONCE_DERIVATION', check: label, reason }))
+    : [];
+
+// Checks that each signature fails or passes on its own
+const detectSignatureVulnerabilities = (signatures: DenovoSignature[], config: DenovoConfig): DenovoVulnerability[] => {
+  const vulnerabilities: DenovoVulnerability[] = [];
+
+  // Check for nonces derived from the key or message instead of randomness
+  if (config.enableNonceDerivationCheck) {
+    const recoveries = findNonceDerivationMistakes(signatures);
+    NONCE_DERIVATION_MISTAKES.forEach(mistake => {
+      const hits = recoveries.filter(recovery => recovery.mistake === mistake);
+      if (hits.length === 0) return;
+
+      const keys = hits.filter((hit, i) => hits.findIndex(other => other.signature.publicKey === hit.signature.publicKey) === i);
+      vulnerabilities.push({
+        type: 'NONCE_DERIVATION',
+        severity: 'CRITICAL',
+        description: `Nonces are derived as ${mistake.label} instead of from a secure random source or RFC 6979.`,
+        affectedSignatures: hits.map(hit => hit.signature),
+        exploitability: 'High - A single signature gives the private key by linear algebra.',
+        recommendation: 'Derive nonces with RFC 6979 (or BIP340 nonce generation) from the key and message through HMAC, never from either one directly.',
+        recoveredKeys: keys.map(({ signature, privateKey, nonce }) => ({
+          publicKey: signature.publicKey,
+          privateKey,
+          nonce,
+          relation: mistake.label
+        }))
+      });
+    });
+  }
+
+  // Check for nonces from the small-k / known-constant table
+  if (config.enableWeakNonceDetection) {
+    const matches = findWeakNonces(signatures, getWeakNonceTable(config.weakNonceTableBits));
+    if (matches.length > 0) {
+      // One entry per key; further hits for a recovered key add nothing
+      const recovered = matches.filter((match, i) => match.privateKey &&
+        matches.findIndex(other => other.privateKey && other.signature.publicKey === match.signature.publicKey) === i);
+      vulnerabilities.push({
+        type: 'WEAK_NONCE',
+        severity: recovered.length > 0 ? 'CRITICAL' : 'HIGH',
+        description: `Signatures use nonces from the weak nonce table (${[...new Set(matches.map(match => match.label))].join(', ')}).`,
+        affectedSignatures: [...new Set(matches.map(match => match.signature))],
+        exploitability: 'High - A known nonce gives the private key from a single signature.',
+        recommendation: 'Use RFC 6979 or a secure random source; never use small, fixed or test-vector nonces.',
+        recoveredKeys: recovered.length > 0
+          ? recovered.map(match => ({
+            publicKey: match.signature.publicKey!,
+            privateKey: match.privateKey!,
+            nonce: match.k.toString(16).padStart(64, '0'),
+            relation: match.label
+          }))
+          : undefined
       });
     }
   }
@@ -212,7 +574,7 @@ const detectVulnerabilities = async (
 
   // Check for Low-S enforcement
   if (config.enableLowSCheck) {
-    const highSSignatures = signatures.filter(sig => !sig.isLowS);
+    const highSSignatures = signatures.filter(sig => sig.scheme === 'ECDSA' && !sig.isLowS);
     if (highSSignatures.length > 0) {
       vulnerabilities.push({
         type: 'LOW_S_NOT_ENFORCED',
@@ -248,34 +610,53 @@ const findDuplicateNonces = (signatures: DenovoSignature[]): DenovoSignature[] =
   return duplicates;
 };
 
-const detectWeakNonces = (signatures: DenovoSignature[]): DenovoSignature[] => {
-  // Simulate weak nonce detection
-  return signatures.filter(sig => {
-    const r = BigInt('0x' + sig.r);
-    // Check for small r values (weak nonces)
-    return r < BigInt('0x1000000000000000000000000000000000000000000000000000000000000000');
+// Each key with enough signatures for the assumed bias is attacked as a
+// Hidden Number Problem; the signatures reported are those the lattice used.
+// The attack runs on the main thread, so timeoutMs bounds it across all keys.
+const detectBiasedNonces = (
+  signatures: DenovoSignature[],
+  config: DenovoConfig
+): { signatures: DenovoSignature[]; recoveredKeys: DenovoRecoveredKey[] } => {
+  const byKey = new Map<string, DenovoSignature[]>();
+  signatures.forEach(sig => {
+    if (sig.scheme !== 'ECDSA' || !sig.z || !sig.publicKey) return;
+    const key = sig.publicKey.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(sig);
   });
-};
 
-const detectBiasedNonces = (signatures: DenovoSignature[]): DenovoSignature[] => {
-  // Simulate biased nonce detection
-  const biasedSignatures: DenovoSignature[] = [];
-  
-  signatures.forEach(sig => {
-    const r = sig.r;
-    // Check for patterns in the first few bytes
-    const firstBytes = r.substring(0, 8);
-    const pattern = /^(00|ff|aa|55)/i;
-    if (pattern.test(firstBytes)) {
-      biasedSignatures.push(sig);
-    }
+  const bits = 256 - config.biasedNonceLeadingZeroBits;
+  const deadline = Date.now() + config.timeoutMs;
+  const affected: DenovoSignature[] = [];
+  const recoveredKeys: DenovoRecoveredKey[] = [];
+
+  byKey.forEach(sigs => {
+    const samples: HnpSample[] = sigs.map(sig => ({
+      r: BigInt('0x' + sig.r),
+      s: BigInt('0x' + sig.s),
+      z: BigInt('0x' + sig.z),
+      known: 0n,
+      shift: 0,
+      bits
+    }));
+    const solution = solveHnp(samples, sigs[0].publicKey, { blockSize: config.biasedNonceBlockSize, deadline });
+    if (!solution) return;
+
+    affected.push(...sigs.slice(0, solution.signaturesUsed));
+    recoveredKeys.push({
+      publicKey: sigs[0].publicKey,
+      privateKey: solution.privateKey.toString(16).padStart(64, '0'),
+      nonce: solution.nonce.toString(16).padStart(64, '0'),
+      relation: `|k| < 2^${bits}, ${solution.signaturesUsed} of ${sigs.length} signatures, ${solution.reduction}`
+    });
   });
 
-  return biasedSignatures;
+  return { signatures: affected, recoveredKeys };
 };
 
 const detectMalleableSignatures = (signatures: DenovoSignature[]): DenovoSignature[] => {
-  return signatures.filter(sig => !sig.isLowS || !sig.isDER);
+  // BIP340 signatures have a fixed encoding and no s negation
+  return signatures.filter(sig => sig.scheme === 'ECDSA' && (!sig.isLowS || !sig.isDER));
 };
 
 const calculateRiskScore = (vulnerabilities: DenovoVulnerability[]): number => {
@@ -299,100 +680,4 @@ const calculateRiskScore = (vulnerabilities: DenovoVulnerability[]): number => {
   });
 
   return Math.min(score, 100);
-};
-
-const getRandomScriptType = (): DenovoSignature['scriptType'] => {
-  const types: DenovoSignature['scriptType'][] = ['P2PKH', 'P2PK', 'P2SH', 'P2WPKH', 'P2WSH', 'P2TR'];
-  return types[Math.floor(Math.random() * types.length)];
-};
-
-const generateRandomHex = (length: number): string => {
-  const chars = '0123456789abcdef';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars[Math.floor(Math.random() * chars.length)];
-  }
-  return result;
-};
-
-const generateMockAddress = (): string => {
-  const prefixes = ['1', '3', 'bc1'];
-  const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-  const chars = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-  let address = prefix;
-  const length = prefix === 'bc1' ? 39 : 25;
-  
-  for (let i = 0; i < length; i++) {
-    address += chars[Math.floor(Math.random() * chars.length)];
-  }
-  
-  return address;
-};
-
-// Utility functions for nonce analysis
-export const analyzeNonceEntropy = (nonces: string[]): {
-  entropy: number;
-  patterns: string[];
-  recommendations: string[];
-} => {
-  const entropy = calculateShannonEntropy(nonces.join(''));
-  const patterns = detectPatterns(nonces);
-  const recommendations = generateEntropyRecommendations(entropy, patterns);
-
-  return { entropy, patterns, recommendations };
-};
-
-const calculateShannonEntropy = (data: string): number => {
-  const frequency: { [key: string]: number } = {};
-  
-  for (const char of data) {
-    frequency[char] = (frequency[char] || 0) + 1;
-  }
-
-  const length = data.length;
-  let entropy = 0;
-
-  for (const count of Object.values(frequency)) {
-    const probability = count / length;
-    entropy -= probability * Math.log2(probability);
-  }
-
-  return entropy;
-};
-
-const detectPatterns = (nonces: string[]): string[] => {
-  const patterns: string[] = [];
-  
-  // Check for repeated prefixes
-  const prefixes = nonces.map(n => n.substring(0, 8));
-  const prefixCounts = prefixes.reduce((acc, prefix) => {
-    acc[prefix] = (acc[prefix] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  Object.entries(prefixCounts).forEach(([prefix, count]) => {
-    if (count > 1) {
-      patterns.push(`Repeated prefix: ${prefix} (${count} times)`);
-    }
-  });
-
-  return patterns;
-};
-
-const generateEntropyRecommendations = (entropy: number, patterns: string[]): string[] => {
-  const recommendations: string[] = [];
-
-  if (entropy < 3.5) {
-    recommendations.push('Low entropy detected - use a cryptographically secure random number generator');
-  }
-
-  if (patterns.length > 0) {
-    recommendations.push('Patterns detected in nonce generation - review randomness source');
-  }
-
-  if (entropy > 3.8 && patterns.length === 0) {
-    recommendations.push('Good entropy and no obvious patterns detected');
-  }
-
-  return recommendations;
 };
\ No newline at end of file
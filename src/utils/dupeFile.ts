@@ -0,0 +1,113 @@
+import { ECDSASignature } from '../types/bitcoin';
+import { encodePoint, liftX } from './secp256k1';
+
+// One rrr.dupe line: a signature's r value and its signer's key
+export interface DupeEntry {
+  height: number;
+  txid: string;
+  inputIndex: number;
+  r: string;
+  x: string;
+  ysign: number;
+}
+
+export interface DupeParseError {
+  line: number; // 1-based
+  text: string;
+  message: string;
+}
+
+export interface DupeParseResult {
+  signatures: ECDSASignature[];
+  errors: DupeParseError[];
+}
+
+// ysign column: 2/3 is the SEC1 prefix of a compressed key, 0/1 the y parity
+// of an uncompressed one
+const COMPRESSED_PREFIXES = [2, 3];
+const UNCOMPRESSED_PARITIES = [0, 1];
+
+// Rebuilds the signer's public key from the x and ysign columns
+export const decompressDupeKey = (x: string, ysign: number): string => {
+  const compressed = COMPRESSED_PREFIXES.includes(ysign);
+  if (!compressed && !UNCOMPRESSED_PARITIES.includes(ysign)) {
+    throw new Error(`Invalid ysign ${ysign}`);
+  }
+
+  const point = liftX(BigInt('0x' + x), compressed ? ysign === 3 : ysign === 1);
+  return encodePoint(point, compressed);
+};
+
+// Validates one `height txid i r x ysign` line without touching the curve
+export const parseDupeEntry = (line: string): DupeEntry => {
+  const parts = line.trim().split(/\s+/);
+  if (parts.length !== 6) {
+    throw new Error(`Expected 6 columns (height txid i r x ysign), found ${parts.length}`);
+  }
+
+  const [height, txid, i, r, x, ysign] = parts;
+  if (!/^\d+$/.test(height)) throw new Error(`Invalid height "${height}"`);
+  if (!/^[0-9a-fA-F]{64}$/.test(txid)) throw new Error(`Invalid txid "${txid}"`);
+  if (!/^\d+$/.test(i)) throw new Error(`Invalid input index "${i}"`);
+  if (!/^[0-9a-fA-F]{1,64}$/.test(r)) throw new Error(`Invalid r "${r}"`);
+  if (!/^[0-9a-fA-F]{64}$/.test(x)) throw new Error(`Invalid x "${x}"`);
+  if (!/^\d+$/.test(ysign)) throw new Error(`Invalid ysign "${ysign}"`);
+
+  return {
+    height: parseInt(height),
+    txid: txid.toLowerCase(),
+    inputIndex: parseInt(i),
+    r: r.toLowerCase().padStart(64, '0'),
+    x: x.toLowerCase(),
+    ysign: parseInt(ysign)
+  };
+};
+
+// One line as a signature; s and z are left for the transaction lookup that
+// pivot recovery performs
+export const parseDupeLine = (line: string): ECDSASignature => {
+  const entry = parseDupeEntry(line);
+
+  return {
+    txid: entry.txid,
+    inputIndex: entry.inputIndex,
+    r: entry.r,
+    s: '',
+    z: '',
+    publicKey: decompressDupeKey(entry.x, entry.ysign),
+    x: entry.x,
+    height: entry.height
+  };
+};
+
+export const formatDupeLine = (entry: DupeEntry): string => {
+  return `${entry.height} ${entry.txid} ${entry.inputIndex} ${entry.r} ${entry.x} ${entry.ysign}`;
+};
+
+// ysign for a SEC1 key: the prefix when compressed, the y parity otherwise
+export const dupeKeySign = (publicKey: string): number => {
+  const prefix = parseInt(publicKey.slice(0, 2), 16);
+  return prefix === 4 ? parseInt(publicKey.slice(-1), 16) & 1 : prefix;
+};
+
+// Parses a whole rrr.dupe file; bad lines are collected with their line
+// numbers rather than dropped
+export const parseDupeFile = (content: string): DupeParseResult => {
+  const signatures: ECDSASignature[] = [];
+  const errors: DupeParseError[] = [];
+
+  content.split('\n').forEach((text, index) => {
+    if (!text.trim()) return;
+    try {
+      signatures.push(parseDupeLine(text));
+    } catch (error) {
+      errors.push({
+        line: index + 1,
+        text: text.trim(),
+        message: error instanceof Error ? error.message : 'Unparseable line'
+      });
+    }
+  });
+
+  return { signatures, errors };
+};
@@ -0,0 +1,243 @@
+import { UTXO } from '../types/blockchain';
+import { ChainBlock, ChainDataProvider, ChainTransaction, Prevout } from '../types/chain';
+import { RpcRetryPolicy } from '../types/rpc';
+import { decodeAddress, Network, normalizeAddress } from './address';
+import { DEFAULT_RETRY_POLICY } from './bitcoinRpc';
+
+// Esplora's JSON shapes, reduced to the fields read here
+interface EsploraStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_hash?: string;
+  block_time?: number;
+}
+
+interface EsploraTransaction {
+  txid: string;
+  vout: { scriptpubkey: string; value: number }[];
+  status: EsploraStatus;
+}
+
+interface EsploraBlock {
+  id: string;
+  height: number;
+  version: number;
+  timestamp: number;
+  tx_count: number;
+  merkle_root: string;
+  previousblockhash: string | null;
+  nonce: number;
+  bits: number;
+}
+
+export interface EsploraOutspend {
+  spent: boolean;
+  txid?: string;
+  vin?: number;
+  status?: EsploraStatus;
+}
+
+// /address/:address/txs/chain/:last_seen pages hold 25 confirmed transactions
+const CHAIN_PAGE_SIZE = 25;
+const DEFAULT_HISTORY_LIMIT = 1000;
+// Raw hex is one request per transaction; a small pool keeps a block or a long
+// address history from tripping the server's rate limit
+const HEX_FETCH_CONCURRENCY = 4;
+
+// Runs fn over items with at most limit calls in flight, keeping the order
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Client for the Esplora REST API (Blockstream's esplora, electrs, mempool.space).
+// 429 and 5xx answers and network failures are retried; 404s are not.
+export class EsploraProvider implements ChainDataProvider {
+  readonly backend = 'esplora' as const;
+  readonly network: Network;
+  private baseUrl: string;
+  private policy: RpcRetryPolicy;
+  private historyLimit: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(
+    baseUrl: string,
+    network: Network = 'mainnet',
+    options: { policy?: Partial<RpcRetryPolicy>; historyLimit?: number; fetchImpl?: typeof fetch } = {}
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.network = network;
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async getTipHeight(): Promise<number> {
+    return parseInt(await this.request('/blocks/tip/height', 'text'), 10);
+  }
+
+  async getTransaction(txid: string): Promise<ChainTransaction> {
+    const [tx, hex, tip] = await Promise.all([
+      this.request<EsploraTransaction>(`/tx/${txid}`),
+      this.getTransactionHex(txid),
+      this.getTipHeight()
+    ]);
+    return this.describe(tx, hex, tip);
+  }
+
+  async getTransactionHex(txid: string): Promise<string> {
+    return (await this.request(`/tx/${txid}/hex`, 'text')).trim();
+  }
+
+  async getTransactionHeight(txid: string): Promise<number | undefined> {
+    const status = await this.request<EsploraStatus>(`/tx/${txid}/status`);
+    return status.confirmed ? status.block_height : undefined;
+  }
+
+  async getPrevout(txid: string, vout: number): Promise<Prevout> {
+    const tx = await this.request<EsploraTransaction>(`/tx/${txid}`);
+    const output = tx.vout[vout];
+    if (!output) {
+      throw new Error(`Transaction ${txid} has no output ${vout}`);
+    }
+    return { scriptPubKey: output.scriptpubkey, value: output.value };
+  }
+
+  // Which transaction, if any, spends each output
+  async getOutspends(txid: string): Promise<EsploraOutspend[]> {
+    return this.request<EsploraOutspend[]>(`/tx/${txid}/outspends`);
+  }
+
+  async getBlock(hashOrHeight: string | number): Promise<ChainBlock> {
+    const hash = typeof hashOrHeight === 'number'
+      ? (await this.request(`/block-height/${hashOrHeight}`, 'text')).trim()
+      : hashOrHeight;
+    const [block, txids, tip] = await Promise.all([
+      this.request<EsploraBlock>(`/block/${hash}`),
+      this.request<string[]>(`/block/${hash}/txids`),
+      this.getTipHeight()
+    ]);
+    const hexes = await mapWithConcurrency(txids, HEX_FETCH_CONCURRENCY, txid => this.getTransactionHex(txid));
+
+    return {
+      hash: block.id,
+      height: block.height,
+      version: block.version,
+      previousBlockHash: block.previousblockhash ?? '0'.repeat(64),
+      merkleRoot: block.merkle_root,
+      time: block.timestamp,
+      bits: block.bits.toString(16).padStart(8, '0'),
+      nonce: block.nonce,
+      transactions: txids.map((txid, i) => ({
+        txid,
+        hex: hexes[i],
+        blockHash: block.id,
+        blockHeight: block.height,
+        confirmations: tip - block.height + 1,
+        timestamp: block.timestamp * 1000
+      }))
+    };
+  }
+
+  // The first page mixes mempool and the newest confirmed transactions;
+  // older ones come 25 at a time keyed by the last txid seen
+  async getAddressHistory(address: string): Promise<ChainTransaction[]> {
+    const target = normalizeAddress(address);
+    const first = await this.request<EsploraTransaction[]>(`/address/${target}/txs`);
+    const transactions = [...first];
+
+    let page = first.filter(tx => tx.status.confirmed);
+    while (page.length >= CHAIN_PAGE_SIZE) {
+      if (transactions.length >= this.historyLimit) {
+        throw new Error(`Address ${target} has more than ${this.historyLimit} transactions`);
+      }
+      const lastSeen = page[page.length - 1].txid;
+      page = await this.request<EsploraTransaction[]>(`/address/${target}/txs/chain/${lastSeen}`);
+      transactions.push(...page);
+    }
+
+    const tip = await this.getTipHeight();
+    const hexes = await mapWithConcurrency(transactions, HEX_FETCH_CONCURRENCY, tx => this.getTransactionHex(tx.txid));
+    return transactions
+      .map((tx, i) => this.describe(tx, hexes[i], tip))
+      .reverse();
+  }
+
+  async getUtxos(address: string): Promise<UTXO[]> {
+    const target = normalizeAddress(address);
+    const scriptPubKey = decodeAddress(target).scriptPubKey;
+    const [utxos, tip] = await Promise.all([
+      this.request<{ txid: string; vout: number; value: number; status: EsploraStatus }[]>(`/address/${target}/utxo`),
+      this.getTipHeight()
+    ]);
+
+    return utxos.map(utxo => ({
+      txHash: utxo.txid,
+      outputIndex: utxo.vout,
+      value: utxo.value,
+      address: target,
+      scriptPubKey,
+      confirmations: utxo.status.confirmed && utxo.status.block_height !== undefined
+        ? tip - utxo.status.block_height + 1
+        : 0,
+      spendable: true
+    }));
+  }
+
+  private describe(tx: EsploraTransaction, hex: string, tip: number): ChainTransaction {
+    const { status } = tx;
+    return {
+      txid: tx.txid,
+      hex,
+      blockHash: status.block_hash,
+      blockHeight: status.block_height,
+      confirmations: status.confirmed && status.block_height !== undefined ? tip - status.block_height + 1 : 0,
+      timestamp: status.block_time !== undefined ? status.block_time * 1000 : undefined
+    };
+  }
+
+  private async request<T>(path: string): Promise<T>;
+  private async request(path: string, format: 'text'): Promise<string>;
+  private async request<T>(path: string, format: 'json' | 'text' = 'json'): Promise<T | string> {
+    let lastError = '';
+
+    for (let attempt = 0; attempt <= this.policy.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.policy.retryDelayMs));
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+      let response: Response;
+      try {
+        response = await this.fetchImpl(`${this.baseUrl}${path}`, { signal: controller.signal });
+        if (response.ok) {
+          return format === 'text' ? await response.text() : await response.json();
+        }
+      } catch (error) {
+        lastError = controller.signal.aborted
+          ? `timed out after ${this.policy.timeoutMs} ms`
+          : error instanceof Error ? error.message : 'request failed';
+        continue;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const body = (await response.text()).trim();
+      lastError = `HTTP ${response.status}${body ? `: ${body}` : ''}`;
+      if (response.status !== 429 && response.status < 500) {
+        throw new Error(`Esplora ${path} failed with ${lastError}`);
+      }
+    }
+
+    throw new Error(`Esplora ${path} failed after ${this.policy.retries + 1} attempts: ${lastError}`);
+  }
+}
@@ -0,0 +1,171 @@
+import { Transaction } from '../types/bitcoin';
+import { UTXO } from '../types/blockchain';
+import { ChainBlock, ChainDataProvider, ChainFixture, ChainTransaction, Prevout } from '../types/chain';
+import { Network, normalizeAddress, scriptToAddress } from './address';
+import { parseTransaction } from './transaction';
+import demoChain from '../fixtures/demoChain.json';
+
+type FixtureBlock = ChainFixture['blocks'][number];
+
+// Offline provider over a JSON fixture. Everything is indexed up front, so
+// lookups are deterministic and never touch the network.
+export class FixtureChainProvider implements ChainDataProvider {
+  readonly backend = 'fixture' as const;
+  readonly network: Network;
+  readonly description: string;
+  private transactions = new Map<string, Transaction>();
+  private order: string[] = [];
+  private blocksByHash = new Map<string, FixtureBlock>();
+  private blocksByHeight = new Map<number, FixtureBlock>();
+  private txBlocks = new Map<string, FixtureBlock>();
+  private spent = new Set<string>();
+  private tipHeight = -1;
+
+  constructor(fixture: ChainFixture) {
+    this.network = fixture.network;
+    this.description = fixture.description ?? '';
+
+    fixture.transactions.forEach(entry => {
+      const tx = parseTransaction(entry.hex);
+      if (tx.txid !== entry.txid.toLowerCase()) {
+        throw new Error(`Fixture transaction ${entry.txid} hashes to ${tx.txid}`);
+      }
+      this.transactions.set(tx.txid, tx);
+      tx.vin.forEach(input => this.spent.add(`${input.txid}:${input.vout}`));
+    });
+
+    [...fixture.blocks].sort((a, b) => a.height - b.height).forEach(block => {
+      this.blocksByHash.set(block.hash, block);
+      this.blocksByHeight.set(block.height, block);
+      this.tipHeight = Math.max(this.tipHeight, block.height);
+      block.txids.forEach(txid => {
+        if (!this.transactions.has(txid)) {
+          throw new Error(`Block ${block.height} lists unknown transaction ${txid}`);
+        }
+        this.txBlocks.set(txid, block);
+        this.order.push(txid);
+      });
+    });
+
+    // Transactions outside every block sort last, as mempool entries
+    this.transactions.forEach((_, txid) => {
+      if (!this.txBlocks.has(txid)) this.order.push(txid);
+    });
+  }
+
+  get transactionCount(): number {
+    return this.transactions.size;
+  }
+
+  get blockCount(): number {
+    return this.blocksByHash.size;
+  }
+
+  async getTransaction(txid: string): Promise<ChainTransaction> {
+    return this.describe(this.lookup(txid));
+  }
+
+  async getTransactionHex(txid: string): Promise<string> {
+    return this.lookup(txid).hex;
+  }
+
+  async getTransactionHeight(txid: string): Promise<number | undefined> {
+    return this.describe(this.lookup(txid)).blockHeight;
+  }
+
+  async getPrevout(txid: string, vout: number): Promise<Prevout> {
+    const output = this.lookup(txid).vout[vout];
+    if (!output) {
+      throw new Error(`Transaction ${txid} has no output ${vout}`);
+    }
+    return { scriptPubKey: output.scriptPubKey.hex, value: output.value };
+  }
+
+  async getBlock(hashOrHeight: string | number): Promise<ChainBlock> {
+    const block = typeof hashOrHeight === 'number'
+      ? this.blocksByHeight.get(hashOrHeight)
+      : this.blocksByHash.get(hashOrHeight.toLowerCase());
+    if (!block) {
+      throw new Error(`Block ${hashOrHeight} not found in fixture`);
+    }
+
+    return {
+      hash: block.hash,
+      height: block.height,
+      version: block.version,
+      previousBlockHash: block.previousBlockHash,
+      merkleRoot: block.merkleRoot,
+      time: block.time,
+      bits: block.bits,
+      nonce: block.nonce,
+      transactions: block.txids.map(txid => this.describe(this.transactions.get(txid)!))
+    };
+  }
+
+  async getAddressHistory(address: string): Promise<ChainTransaction[]> {
+    const target = normalizeAddress(address);
+    return this.order
+      .map(txid => this.transactions.get(txid)!)
+      .filter(tx => {
+        return tx.vout.some(output => this.addressOf(output.scriptPubKey.hex) === target) ||
+          tx.vin.some(input => {
+            const prev = this.transactions.get(input.txid)?.vout[input.vout];
+            return prev !== undefined && this.addressOf(prev.scriptPubKey.hex) === target;
+          });
+      })
+      .map(tx => this.describe(tx));
+  }
+
+  async getUtxos(address: string): Promise<UTXO[]> {
+    const target = normalizeAddress(address);
+    const utxos: UTXO[] = [];
+
+    this.order.forEach(txid => {
+      const tx = this.transactions.get(txid)!;
+      const { confirmations } = this.describe(tx);
+      tx.vout.forEach((output, index) => {
+        if (this.addressOf(output.scriptPubKey.hex) !== target || this.spent.has(`${txid}:${index}`)) return;
+        utxos.push({
+          txHash: txid,
+          outputIndex: index,
+          value: output.value,
+          address: target,
+          scriptPubKey: output.scriptPubKey.hex,
+          confirmations,
+          spendable: true
+        });
+      });
+    });
+
+    return utxos;
+  }
+
+  private lookup(txid: string): Transaction {
+    const tx = this.transactions.get(txid.toLowerCase());
+    if (!tx) {
+      throw new Error(`Transaction ${txid} not found in fixture`);
+    }
+    return tx;
+  }
+
+  private describe(tx: Transaction): ChainTransaction {
+    const block = this.txBlocks.get(tx.txid);
+    return {
+      txid: tx.txid,
+      hex: tx.hex,
+      blockHash: block?.hash,
+      blockHeight: block?.height,
+      confirmations: block ? this.tipHeight - block.height + 1 : 0,
+      timestamp: block ? block.time * 1000 : undefined
+    };
+  }
+
+  private addressOf(scriptPubKey: string): string | null {
+    return scriptToAddress(scriptPubKey, this.network);
+  }
+}
+
+// Built-in synthetic chain used until another backend is configured
+export const createDemoProvider = (): FixtureChainProvider => {
+  return new FixtureChainProvider(demoChain as ChainFixture);
+};
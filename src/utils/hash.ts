@@ -0,0 +1,58 @@
+import CryptoJS from 'crypto-js';
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.trim().toLowerCase();
+  if (clean.length % 2 !== 0 || !/^[0-9a-f]*$/.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+export const bytesToHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const concatBytes = (...arrays: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(arrays.reduce((sum, arr) => sum + arr.length, 0));
+  let offset = 0;
+  arrays.forEach(arr => {
+    result.set(arr, offset);
+    offset += arr.length;
+  });
+  return result;
+};
+
+// Bitcoin displays txids and block hashes byte-reversed
+export const reverseHex = (hex: string): string => {
+  return (hex.match(/.{2}/g) || []).reverse().join('');
+};
+
+const toWordArray = (data: Uint8Array): CryptoJS.lib.WordArray => {
+  return CryptoJS.lib.WordArray.create(data as any);
+};
+
+const fromWordArray = (words: CryptoJS.lib.WordArray): Uint8Array => {
+  const bytes = new Uint8Array(words.sigBytes);
+  for (let i = 0; i < words.sigBytes; i++) {
+    bytes[i] = (words.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+};
+
+export const sha256 = (data: Uint8Array): Uint8Array => {
+  return fromWordArray(CryptoJS.SHA256(toWordArray(data)));
+};
+
+export const ripemd160 = (data: Uint8Array): Uint8Array => {
+  return fromWordArray(CryptoJS.RIPEMD160(toWordArray(data)));
+};
+
+// Double SHA256, used for txids, sighashes and checksums
+export const hash256 = (data: Uint8Array): Uint8Array => sha256(sha256(data));
+
+export const hash160 = (data: Uint8Array): Uint8Array => ripemd160(sha256(data));
@@ -0,0 +1,145 @@
+import { matchPublicKey } from './bitcoinAnalysis';
+import { bkzReduce, LatticeBasis, lllReduce } from './lattice';
+import { mod, modInverse, N } from './secp256k1';
+
+const NONCE_BITS = 256;
+// Extra known bits beyond the key size before the first lattice is tried
+const INFORMATION_MARGIN = 16;
+// Samples beyond this multiple of the information bound only slow the
+// reduction down; if the lattice fails there, more of them will not help
+const MAX_SAMPLE_FACTOR = 2;
+
+// One signature as a Hidden Number Problem sample: its nonce is
+// known + 2^shift * x with |x| < 2^bits. A nonce with l leading zero bits
+// is known = 0, shift = 0, bits = 256 - l; the sign of x is left free
+// because low-S normalisation may have negated the nonce.
+export interface HnpSample {
+  r: bigint;
+  s: bigint;
+  z: bigint;
+  known: bigint;
+  shift: number;
+  bits: number;
+}
+
+export interface HnpSolution {
+  privateKey: bigint;
+  nonce: bigint; // k of the first sample
+  signaturesUsed: number;
+  reduction: string; // 'LLL' or 'BKZ-<block size>'
+}
+
+// x_i = t_i*d + u_i (mod n) for each sample, from s*k = z + r*d
+const linearize = (sample: HnpSample): { t: bigint; u: bigint } => {
+  const scale = modInverse(mod(sample.s * (1n << BigInt(sample.shift)), N), N);
+  return {
+    t: mod(sample.r * scale, N),
+    u: mod((sample.z - sample.s * sample.known) * scale, N)
+  };
+};
+
+// d is eliminated through the first sample, leaving x_i = A_i*x_0 + B_i.
+// Columns are weighted so every x_i has the same bound 2^W, and the last
+// column embeds the constant terms, so (S_1*x_1, ..., S_0*x_0, 2^W) is a
+// short vector of:
+//   n*S_i on the diagonal for i = 1..m-1
+//   (A_1*S_1, ..., A_{m-1}*S_{m-1}, S_0, 0)
+//   (B_1*S_1, ..., B_{m-1}*S_{m-1}, 0, 2^W)
+export const buildHnpLattice = (samples: HnpSample[]): LatticeBasis => {
+  const width = Math.max(...samples.map(sample => sample.bits));
+  const weights = samples.map(sample => 1n << BigInt(width - sample.bits));
+  const terms = samples.map(linearize);
+  const inverse = modInverse(terms[0].t, N);
+  const m = samples.length;
+
+  const basis: LatticeBasis = [];
+  for (let i = 1; i < m; i++) {
+    const row = new Array<bigint>(m + 1).fill(0n);
+    row[i - 1] = N * weights[i];
+    basis.push(row);
+  }
+
+  const aRow = new Array<bigint>(m + 1).fill(0n);
+  const bRow = new Array<bigint>(m + 1).fill(0n);
+  for (let i = 1; i < m; i++) {
+    const a = mod(terms[i].t * inverse, N);
+    aRow[i - 1] = a * weights[i];
+    bRow[i - 1] = mod(terms[i].u - a * terms[0].u, N) * weights[i];
+  }
+  aRow[m - 1] = weights[0];
+  bRow[m] = 1n << BigInt(width);
+  basis.push(aRow, bRow);
+
+  return basis;
+};
+
+// Reads x_0 off every reduced vector that carries the embedding constant
+// and keeps the key that matches the public key
+const keyFromBasis = (basis: LatticeBasis, samples: HnpSample[], publicKey: string): bigint | null => {
+  const m = samples.length;
+  const width = Math.max(...samples.map(sample => sample.bits));
+  const embedding = 1n << BigInt(width);
+  const weight = 1n << BigInt(width - samples[0].bits);
+  const { t, u } = linearize(samples[0]);
+  const inverse = modInverse(t, N);
+
+  for (const vector of basis) {
+    const last = vector[m];
+    if (last !== embedding && last !== -embedding) continue;
+    const scaled = last === embedding ? vector[m - 1] : -vector[m - 1];
+    if (scaled % weight !== 0n) continue;
+
+    const privateKey = mod((scaled / weight - u) * inverse, N);
+    if (privateKey !== 0n && matchPublicKey(privateKey, publicKey)) return privateKey;
+  }
+  return null;
+};
+
+export const solveHnpLattice = (
+  samples: HnpSample[],
+  publicKey: string,
+  blockSize: number = 0,
+  deadline?: number
+): { privateKey: bigint; reduction: string } | null => {
+  const lll = lllReduce(buildHnpLattice(samples));
+  const fromLll = keyFromBasis(lll, samples, publicKey);
+  if (fromLll !== null) return { privateKey: fromLll, reduction: 'LLL' };
+  if (blockSize < 2) return null;
+
+  const fromBkz = keyFromBasis(bkzReduce(lll, blockSize, { deadline }), samples, publicKey);
+  return fromBkz !== null ? { privateKey: fromBkz, reduction: `BKZ-${blockSize}` } : null;
+};
+
+// Tries growing prefixes of the samples, from just past the information
+// bound (the known bits must exceed the key size) to twice that, so the
+// solution also says how many signatures it took. Put the most informative
+// samples first. Past the deadline (epoch milliseconds) it gives up.
+export const solveHnp = (
+  samples: HnpSample[],
+  publicKey: string,
+  options: { blockSize?: number; deadline?: number } = {}
+): HnpSolution | null => {
+  let known = 0;
+  let size = samples.findIndex(sample => (known += NONCE_BITS - sample.bits) > NONCE_BITS + INFORMATION_MARGIN) + 1;
+  if (size === 0) return null;
+  size = Math.max(size, 2);
+  const limit = Math.min(samples.length, MAX_SAMPLE_FACTOR * size);
+
+  for (;;) {
+    if (options.deadline !== undefined && Date.now() > options.deadline) return null;
+
+    const used = samples.slice(0, size);
+    const result = solveHnpLattice(used, publicKey, options.blockSize, options.deadline);
+    if (result) {
+      const first = samples[0];
+      return {
+        privateKey: result.privateKey,
+        nonce: mod((first.z + first.r * result.privateKey) * modInverse(first.s, N), N),
+        signaturesUsed: size,
+        reduction: result.reduction
+      };
+    }
+    if (size === limit) return null;
+    size = Math.min(limit, size + Math.max(2, Math.ceil(size / 4)));
+  }
+};
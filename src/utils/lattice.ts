@@ -0,0 +1,242 @@
+// Lattice reduction over an exact BigInt basis (one row per vector). The
+// Gram-Schmidt data is kept in doubles as in Schnorr-Euchner LLL: inner
+// products are taken in floating point unless they cancel badly, when the
+// exact integers are used instead. Entries must stay below about 2^500 so
+// squared norms fit in a double.
+
+export type LatticeBasis = bigint[][];
+
+export const DEFAULT_LLL_DELTA = 0.99;
+const PRECISION_BITS = 53;
+const CANCELLATION = 2 ** (-PRECISION_BITS / 2);
+const LARGE_COEFFICIENT = 2 ** (PRECISION_BITS / 2);
+const DEFAULT_ENUMERATION_NODES = 500000;
+
+interface GramSchmidt {
+  mu: number[][];
+  norms: number[]; // squared lengths of the Gram-Schmidt vectors
+}
+
+const exactDot = (a: bigint[], b: bigint[]): bigint => a.reduce((sum, value, i) => sum + value * b[i], 0n);
+
+const floatDot = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+const toFloats = (vector: bigint[]): number[] => vector.map(Number);
+
+// Inner product in doubles, falling back to the exact value when the
+// rounding error could exceed the result
+const innerProduct = (basis: LatticeBasis, floats: number[][], i: number, j: number): number => {
+  const dot = floatDot(floats[i], floats[j]);
+  const bound = Math.sqrt(floatDot(floats[i], floats[i])) * Math.sqrt(floatDot(floats[j], floats[j]));
+  if (!Number.isFinite(dot) || !Number.isFinite(bound)) {
+    throw new Error('Lattice entries are too large for floating-point Gram-Schmidt');
+  }
+  return Math.abs(dot) < CANCELLATION * bound ? Number(exactDot(basis[i], basis[j])) : dot;
+};
+
+// Row k of the Gram-Schmidt data from rows 0..k-1, which must be current
+const orthogonalizeRow = (basis: LatticeBasis, floats: number[][], gso: GramSchmidt, k: number): void => {
+  const r: number[] = [];
+  gso.mu[k] = [];
+  for (let j = 0; j < k; j++) {
+    let value = innerProduct(basis, floats, k, j);
+    for (let i = 0; i < j; i++) value -= gso.mu[j][i] * r[i];
+    r.push(value);
+    gso.mu[k][j] = value / gso.norms[j];
+  }
+  let norm = innerProduct(basis, floats, k, k);
+  for (let j = 0; j < k; j++) norm -= gso.mu[k][j] * r[j];
+  gso.norms[k] = norm;
+};
+
+export const gramSchmidt = (basis: LatticeBasis): GramSchmidt => {
+  const floats = basis.map(toFloats);
+  const gso: GramSchmidt = { mu: [], norms: [] };
+  basis.forEach((_, k) => orthogonalizeRow(basis, floats, gso, k));
+  return gso;
+};
+
+const isZero = (vector: bigint[]): boolean => vector.every(value => value === 0n);
+
+// LLL with deletion of zero vectors, so a generating set that is not
+// linearly independent comes back as a basis
+export const lllReduce = (input: LatticeBasis, delta: number = DEFAULT_LLL_DELTA): LatticeBasis => {
+  const basis = input.map(row => [...row]).filter(row => !isZero(row));
+  const floats = basis.map(toFloats);
+  const gso: GramSchmidt = { mu: [], norms: [] };
+  if (basis.length === 0) return basis;
+  orthogonalizeRow(basis, floats, gso, 0);
+
+  let k = 1;
+  while (k < basis.length) {
+    // Size reduction, repeated while large coefficients may have left the
+    // floating-point mu values stale
+    for (;;) {
+      orthogonalizeRow(basis, floats, gso, k);
+      let large = false;
+      for (let j = k - 1; j >= 0; j--) {
+        const mu = gso.mu[k][j];
+        if (Math.abs(mu) <= 0.5) continue;
+        const q = Math.round(mu);
+        if (Math.abs(q) > LARGE_COEFFICIENT) large = true;
+        const factor = BigInt(q);
+        basis[k] = basis[k].map((value, i) => value - factor * basis[j][i]);
+        for (let i = 0; i < j; i++) gso.mu[k][i] -= q * gso.mu[j][i];
+        gso.mu[k][j] -= q;
+      }
+      floats[k] = toFloats(basis[k]);
+      if (!large) break;
+    }
+
+    if (isZero(basis[k])) {
+      basis.splice(k, 1);
+      floats.splice(k, 1);
+      gso.mu.splice(k, 1);
+      gso.norms.splice(k, 1);
+      continue;
+    }
+
+    // Lovasz condition; the norm is unchanged by size reduction
+    const mu = gso.mu[k][k - 1];
+    if (gso.norms[k] < (delta - mu * mu) * gso.norms[k - 1]) {
+      [basis[k], basis[k - 1]] = [basis[k - 1], basis[k]];
+      [floats[k], floats[k - 1]] = [floats[k - 1], floats[k]];
+      if (k > 1) {
+        k--;
+      } else {
+        orthogonalizeRow(basis, floats, gso, 0);
+      }
+    } else {
+      k++;
+    }
+  }
+
+  return basis;
+};
+
+// Schnorr-Euchner enumeration of the shortest non-zero vector in the
+// projected block, returning its coefficients if one is shorter than the
+// radius. The search gives up after maxNodes tree nodes, keeping the best
+// vector seen.
+const enumerateBlock = (mu: number[][], norms: number[], radius: number, maxNodes: number): number[] | null => {
+  const n = norms.length;
+  const x = new Array<number>(n).fill(0);
+  const center = new Array<number>(n).fill(0);
+  const step = new Array<number>(n).fill(0);
+  const direction = new Array<number>(n).fill(0);
+  const partial = new Array<number>(n + 1).fill(0);
+  let best: number[] | null = null;
+  let bound = radius;
+  let nodes = 0;
+
+  const higherAllZero = (k: number): boolean => {
+    for (let i = k + 1; i < n; i++) if (x[i] !== 0) return false;
+    return true;
+  };
+
+  let k = n - 1;
+  while (k < n && nodes++ < maxNodes) {
+    const offset = x[k] - center[k];
+    const norm = partial[k + 1] + offset * offset * norms[k];
+
+    if (norm < bound) {
+      if (k > 0) {
+        partial[k] = norm;
+        k--;
+        let c = 0;
+        for (let i = k + 1; i < n; i++) c -= x[i] * mu[i][k];
+        center[k] = c;
+        x[k] = Math.round(c);
+        step[k] = direction[k] = c >= x[k] ? 1 : -1;
+        continue;
+      }
+      if (norm > 0) {
+        best = [...x];
+        bound = norm;
+      }
+    } else {
+      k++;
+      if (k >= n) break;
+    }
+
+    // Next candidate at level k: while everything above is zero only one
+    // sign is needed, otherwise zigzag outwards from the center
+    if (higherAllZero(k)) {
+      x[k]++;
+    } else {
+      x[k] += step[k];
+      direction[k] = -direction[k];
+      step[k] = direction[k] - step[k];
+    }
+  }
+
+  return best;
+};
+
+const extendedGcd = (a: bigint, b: bigint): [bigint, bigint, bigint] => {
+  let [oldR, r] = [a, b];
+  let [oldS, s] = [1n, 0n];
+  let [oldT, t] = [0n, 1n];
+  while (r !== 0n) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+    [oldT, t] = [t, oldT - q * t];
+  }
+  return oldR < 0n ? [-oldR, -oldS, -oldT] : [oldR, oldS, oldT];
+};
+
+// Rewrites rows start..start+coefficients.length-1 with unimodular 2x2 steps
+// so the first becomes sum(coefficients[i] * row[start + i]); the
+// coefficients must be coprime, as those of a shortest vector are
+const insertCombination = (basis: LatticeBasis, start: number, coefficients: bigint[]): void => {
+  const x = [...coefficients];
+  for (let i = x.length - 1; i > 0; i--) {
+    if (x[i] === 0n) continue;
+    const [g, u, w] = extendedGcd(x[i - 1], x[i]);
+    const a = x[i - 1] / g;
+    const b = x[i] / g;
+    const first = basis[start + i - 1];
+    const second = basis[start + i];
+    basis[start + i - 1] = first.map((value, j) => a * value + b * second[j]);
+    basis[start + i] = first.map((value, j) => u * second[j] - w * value);
+    x[i - 1] = g;
+    x[i] = 0n;
+  }
+};
+
+// BKZ: LLL, then repeatedly replaces the first vector of each block by the
+// shortest vector of the projected block until a full tour changes nothing.
+// Past the deadline (epoch milliseconds) the basis is returned as it stands.
+export const bkzReduce = (
+  input: LatticeBasis,
+  blockSize: number,
+  options: { delta?: number; maxTours?: number; maxNodes?: number; deadline?: number } = {}
+): LatticeBasis => {
+  const delta = options.delta ?? DEFAULT_LLL_DELTA;
+  const maxTours = options.maxTours ?? 8;
+  const maxNodes = options.maxNodes ?? DEFAULT_ENUMERATION_NODES;
+  let basis = lllReduce(input, delta);
+  if (blockSize < 2) return basis;
+
+  for (let tour = 0; tour < maxTours; tour++) {
+    let changed = false;
+    for (let start = 0; start < basis.length - 1; start++) {
+      if (options.deadline !== undefined && Date.now() > options.deadline) return basis;
+      const end = Math.min(start + blockSize, basis.length);
+      const gso = gramSchmidt(basis);
+      const mu = gso.mu.slice(start, end).map(row => row.slice(start, end));
+      const norms = gso.norms.slice(start, end);
+
+      const coefficients = enumerateBlock(mu, norms, delta * norms[0], maxNodes);
+      if (!coefficients) continue;
+
+      insertCombination(basis, start, coefficients.map(value => BigInt(value)));
+      basis = lllReduce(basis, delta);
+      changed = true;
+    }
+    if (!changed) break;
+  }
+
+  return basis;
+};
@@ -0,0 +1,96 @@
+import { DenovoSignature } from '../types/denovo';
+import { matchPublicKey } from './bitcoinAnalysis';
+import { bytesToHex, hash256, hexToBytes, sha256 } from './hash';
+import { mod, modInverse, N } from './secp256k1';
+import { schnorrChallenge } from './taproot';
+
+// A nonce built from the wrong inputs, as k = a*d + b with a and b computed
+// from the message hash alone, so one signature gives d by linear algebra
+export interface NonceDerivationMistake {
+  label: string;
+  derive: (z: bigint) => { a: bigint; b: bigint };
+}
+
+// A mistake with no algebraic test from one signature, reported as untested
+export interface UntestableNonceDerivation {
+  label: string;
+  reason: string;
+}
+
+export interface NonceDerivationRecovery {
+  mistake: NonceDerivationMistake;
+  signature: DenovoSignature;
+  privateKey: string;
+  nonce: string; // k as the signer used it
+}
+
+const hashOf = (hash: (data: Uint8Array) => Uint8Array, z: bigint): bigint =>
+  mod(BigInt('0x' + bytesToHex(hash(hexToBytes(z.toString(16).padStart(64, '0'))))), N);
+
+export const NONCE_DERIVATION_MISTAKES: NonceDerivationMistake[] = [
+  { label: 'k = d', derive: () => ({ a: 1n, b: 0n }) },
+  { label: 'k = z', derive: z => ({ a: 0n, b: z }) },
+  { label: 'k = SHA256(z)', derive: z => ({ a: 0n, b: hashOf(sha256, z) }) },
+  { label: 'k = SHA256(SHA256(z))', derive: z => ({ a: 0n, b: hashOf(hash256, z) }) }
+];
+
+export const UNTESTABLE_NONCE_DERIVATIONS: UntestableNonceDerivation[] = [
+  {
+    label: 'k = d XOR z',
+    reason: 'Not testable from one signature: k = z + sum(+-2^i * d_i) is a 256-bit knapsack over the bits of d, not a linear equation'
+  },
+  {
+    label: 'k = H(d || z)',
+    reason: 'Not testable from one signature: the hash hides d, so the signature gives no equation in it'
+  }
+];
+
+const SIGNS = [1n, -1n];
+const hex = (value: bigint): string => value.toString(16).padStart(64, '0');
+
+// The published nonce may be the negation of the derived one (low-S
+// normalisation, BIP340's even-y R), and a BIP340 signer may have negated d
+// before deriving k from it, so k = sk*(a*sd*d + b) is tried for every sign
+const solveMistake = (sig: DenovoSignature, mistake: NonceDerivationMistake): { privateKey: bigint; nonce: bigint } | null => {
+  const r = BigInt('0x' + sig.r);
+  const s = BigInt('0x' + sig.s);
+  const z = BigInt('0x' + sig.z);
+  const { a, b } = mistake.derive(z);
+  const schnorr = sig.scheme === 'SCHNORR';
+  const e = schnorr ? schnorrChallenge(sig.r, sig.publicKey, sig.z) : 0n;
+
+  for (const nonceSign of SIGNS) {
+    for (const keySign of schnorr ? SIGNS : [1n]) {
+      const slope = mod(nonceSign * keySign * a, N);
+      const offset = mod(nonceSign * b, N);
+      // ECDSA: s*(slope*d + offset) = z + r*d; BIP340: s = slope*d + offset + e*d
+      const denominator = schnorr ? mod(slope + e, N) : mod(s * slope - r, N);
+      if (denominator === 0n) continue;
+
+      const numerator = schnorr ? s - offset : z - s * offset;
+      const privateKey = mod(numerator * modInverse(denominator, N), N);
+      if (privateKey !== 0n && matchPublicKey(privateKey, sig.publicKey)) {
+        return { privateKey, nonce: mod(slope * privateKey + offset, N) };
+      }
+    }
+  }
+  return null;
+};
+
+// Tests every signature against every mistake; a candidate key only counts
+// once it reproduces the signer's public key
+export const findNonceDerivationMistakes = (signatures: DenovoSignature[]): NonceDerivationRecovery[] => {
+  const recoveries: NonceDerivationRecovery[] = [];
+
+  signatures.forEach(signature => {
+    if (!signature.z || !signature.publicKey) return;
+    NONCE_DERIVATION_MISTAKES.forEach(mistake => {
+      const solution = solveMistake(signature, mistake);
+      if (solution) {
+        recoveries.push({ mistake, signature, privateKey: hex(solution.privateKey), nonce: hex(solution.nonce) });
+      }
+    });
+  });
+
+  return recoveries;
+};
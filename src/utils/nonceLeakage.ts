@@ -0,0 +1,217 @@
+import { KnownNonceBit, LeakageKind, LeakageModel, LeakageParseError, LeakageParseResult, LeakageRecovery, NonceLeak } from '../types/leakage';
+import { matchPublicKey, solveForPrivateKey } from './bitcoinAnalysis';
+import { HnpSample, solveHnp } from './hnp';
+import { decodePoint, mod, N } from './secp256k1';
+
+const NONCE_BITS = 256;
+
+// Parses one `r s z publicKey bits...` line. Each bits token is either
+// `<pos>=<bit>` or `<hi>-<lo>=<binary>`, the binary string written most
+// significant bit first; position 0 is the least significant bit of k.
+// s must be the value the signer produced for k, before any low-S
+// normalisation.
+export const parseLeakageLine = (text: string, line: number = 1): NonceLeak => {
+  const [r, s, z, publicKey, ...tokens] = text.trim().split(/\s+/);
+  if (tokens.length === 0) {
+    throw new Error('Expected r, s, z, the public key and at least one known-bits field');
+  }
+  [['r', r], ['s', s], ['z', z]].forEach(([name, value]) => {
+    if (!/^[0-9a-fA-F]{1,64}$/.test(value)) throw new Error(`Invalid ${name} "${value}"`);
+  });
+  try {
+    decodePoint(publicKey);
+  } catch {
+    throw new Error(`Invalid public key "${publicKey}"`);
+  }
+
+  const known = new Map<number, KnownNonceBit['value']>();
+  tokens.forEach(token => {
+    const match = /^(\d+)(?:-(\d+))?=([01]+)$/.exec(token);
+    if (!match) throw new Error(`Invalid known-bits field "${token}"`);
+
+    const high = parseInt(match[1], 10);
+    const low = match[2] === undefined ? high : parseInt(match[2], 10);
+    const bits = match[3];
+    if (high >= NONCE_BITS || low > high) throw new Error(`Invalid bit range "${token}"`);
+    if (bits.length !== high - low + 1) {
+      throw new Error(`"${token}" gives ${bits.length} bits for ${high - low + 1} positions`);
+    }
+
+    [...bits].forEach((bit, i) => {
+      const position = high - i;
+      const value = bit === '1' ? 1 : 0;
+      if (known.has(position) && known.get(position) !== value) {
+        throw new Error(`Bit ${position} is given as both 0 and 1`);
+      }
+      known.set(position, value);
+    });
+  });
+
+  return {
+    r: r.toLowerCase().padStart(64, '0'),
+    s: s.toLowerCase().padStart(64, '0'),
+    z: z.toLowerCase().padStart(64, '0'),
+    publicKey: publicKey.toLowerCase(),
+    knownBits: [...known.entries()]
+      .map(([position, value]) => ({ position, value }))
+      .sort((a, b) => b.position - a.position),
+    line
+  };
+};
+
+// Blank lines and # comments are skipped; bad lines are collected with their
+// line numbers
+export const parseLeakageFile = (content: string): LeakageParseResult => {
+  const leaks: NonceLeak[] = [];
+  const errors: LeakageParseError[] = [];
+
+  content.split('\n').forEach((text, index) => {
+    if (!text.trim() || text.trim().startsWith('#')) return;
+    try {
+      leaks.push(parseLeakageLine(text, index + 1));
+    } catch (error) {
+      errors.push({
+        line: index + 1,
+        text: text.trim(),
+        message: error instanceof Error ? error.message : 'Unparseable line'
+      });
+    }
+  });
+
+  return { leaks, errors };
+};
+
+// The unknown bits of k are treated as one window from the lowest to the
+// highest unknown position; known bits inside it cannot be used by the
+// single-window lattice and are counted as ignored
+const leakWindow = (leak: NonceLeak): { low: number; high: number; ignored: number } | null => {
+  const known = new Set(leak.knownBits.map(bit => bit.position));
+  let low = 0;
+  while (low < NONCE_BITS && known.has(low)) low++;
+  if (low === NONCE_BITS) return null;
+  let high = NONCE_BITS - 1;
+  while (known.has(high)) high--;
+
+  const ignored = leak.knownBits.filter(bit => bit.position > low && bit.position < high).length;
+  return { low, high, ignored };
+};
+
+const leakKind = (leak: NonceLeak): LeakageKind => {
+  const window = leakWindow(leak);
+  if (!window) return 'window';
+  const leading = window.high < NONCE_BITS - 1;
+  const trailing = window.low > 0;
+  if (leading && trailing) return 'window';
+  if (leading) return 'msb';
+  if (trailing) return 'lsb';
+  return 'middle';
+};
+
+export const describeLeakageModel = (leaks: NonceLeak[]): LeakageModel => {
+  const kinds = new Set(leaks.map(leakKind));
+  const usable = leaks.map(leak => {
+    const window = leakWindow(leak);
+    return window ? NONCE_BITS - (window.high - window.low + 1) : NONCE_BITS;
+  });
+
+  return {
+    kind: kinds.size === 1 ? [...kinds][0] : 'mixed',
+    signatures: leaks.length,
+    minUsableBits: Math.min(...usable),
+    maxUsableBits: Math.max(...usable),
+    ignoredBits: leaks.reduce((sum, leak) => sum + (leakWindow(leak)?.ignored ?? 0), 0)
+  };
+};
+
+export const formatLeakageModel = (model: LeakageModel): string => {
+  const names: Record<LeakageKind, string> = {
+    msb: 'most significant bits',
+    lsb: 'least significant bits',
+    window: 'bits at both ends',
+    middle: 'bits inside the unknown window only',
+    mixed: 'mixed positions'
+  };
+  const usable = model.minUsableBits === model.maxUsableBits
+    ? `${model.minUsableBits}`
+    : `${model.minUsableBits}-${model.maxUsableBits}`;
+  const ignored = model.ignoredBits > 0 ? `, ${model.ignoredBits} bits ignored` : '';
+  return `${names[model.kind]}, ${usable} usable known bits per signature over ${model.signatures} signatures${ignored}`;
+};
+
+// k = known + 2^low * y with 0 <= y < 2^w becomes a centred HNP sample
+// |x| < 2^(w-1) by moving half the window into the known part
+export const leakToSample = (leak: NonceLeak): HnpSample => {
+  const window = leakWindow(leak);
+  if (!window) {
+    throw new Error(`Line ${leak.line}: every bit of the nonce is known`);
+  }
+
+  const width = window.high - window.low + 1;
+  let known = 0n;
+  leak.knownBits.forEach(bit => {
+    if (bit.value === 1 && (bit.position < window.low || bit.position > window.high)) {
+      known |= 1n << BigInt(bit.position);
+    }
+  });
+
+  return {
+    r: BigInt('0x' + leak.r),
+    s: BigInt('0x' + leak.s),
+    z: BigInt('0x' + leak.z),
+    known: known + (1n << BigInt(window.low + width - 1)),
+    shift: window.low,
+    bits: width - 1
+  };
+};
+
+const hex = (value: bigint): string => value.toString(16).padStart(64, '0');
+
+// Groups the leaks by public key and solves each group, most informative
+// signatures first. A leak with the whole nonce known gives the key directly.
+export const recoverFromLeakage = (
+  leaks: NonceLeak[],
+  options: { blockSize?: number } = {}
+): LeakageRecovery[] => {
+  const byKey = new Map<string, NonceLeak[]>();
+  leaks.forEach(leak => {
+    if (!byKey.has(leak.publicKey)) byKey.set(leak.publicKey, []);
+    byKey.get(leak.publicKey)!.push(leak);
+  });
+
+  const recoveries: LeakageRecovery[] = [];
+  byKey.forEach((group, publicKey) => {
+    const model = describeLeakageModel(group);
+
+    const full = group.find(leak => !leakWindow(leak));
+    if (full) {
+      const nonce = full.knownBits.reduce((k, bit) => k | (BigInt(bit.value) << BigInt(bit.position)), 0n);
+      const privateKey = solveForPrivateKey(BigInt('0x' + full.r), BigInt('0x' + full.s), BigInt('0x' + full.z), nonce);
+      if (matchPublicKey(privateKey, publicKey)) {
+        recoveries.push({ publicKey, privateKey: hex(privateKey), nonce: hex(mod(nonce, N)), signaturesUsed: 1, reduction: 'none', model });
+        return;
+      }
+    }
+
+    // A window spanning all 256 bits carries no usable information
+    const ordered = group
+      .filter(leak => {
+        const window = leakWindow(leak);
+        return window && window.high - window.low + 1 < NONCE_BITS;
+      })
+      .map(leak => leakToSample(leak))
+      .sort((a, b) => a.bits - b.bits);
+    const solution = solveHnp(ordered, publicKey, options);
+    if (!solution) return;
+
+    recoveries.push({
+      publicKey,
+      privateKey: hex(solution.privateKey),
+      nonce: hex(solution.nonce),
+      signaturesUsed: solution.signaturesUsed,
+      reduction: solution.reduction,
+      model
+    });
+  });
+
+  return recoveries;
+};
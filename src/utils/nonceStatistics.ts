@@ -0,0 +1,199 @@
+import { DenovoNonceTest, DenovoSignature } from '../types/denovo';
+import { HALF_N } from './secp256k1';
+import { chiSquaredTail, erfc, poissonTail } from './statistics';
+
+export const DEFAULT_NONCE_TEST_SIGNIFICANCE = 0.001;
+// Fewer signatures per key make the per-position and leading-bit tests meaningless
+export const MIN_NONCE_TEST_SIGNATURES = 20;
+// A p-value this small is not chance even across many keys and tests
+export const STRONG_EVIDENCE_P_VALUE = 1e-6;
+
+const COLLISION_PREFIX_BITS = 32;
+const MAX_LEADING_BITS = 8;
+const MIN_EXPECTED_PER_BUCKET = 5;
+
+export interface NonceTestSuiteResult {
+  publicKey: string;
+  signatures: DenovoSignature[];
+  tests: DenovoNonceTest[];
+  passed: boolean;
+}
+
+type TestOutcome = Pick<DenovoNonceTest, 'name' | 'statistic' | 'pValue' | 'detail'>;
+
+// Most significant bit first, each value padded to width bits
+const toBits = (values: bigint[], width: number): Uint8Array => {
+  const bits = new Uint8Array(values.length * width);
+  values.forEach((value, i) => {
+    for (let j = 0; j < width; j++) {
+      bits[i * width + j] = Number((value >> BigInt(width - 1 - j)) & 1n);
+    }
+  });
+  return bits;
+};
+
+const countOnes = (bits: Uint8Array): number => bits.reduce((sum, bit) => sum + bit, 0);
+
+// NIST SP 800-22 frequency (monobit) test
+const monobitTest = (bits: Uint8Array): TestOutcome => {
+  const ones = countOnes(bits);
+  const statistic = Math.abs(2 * ones - bits.length) / Math.sqrt(bits.length);
+  return {
+    name: 'monobit',
+    statistic,
+    pValue: erfc(statistic / Math.SQRT2),
+    detail: `${ones} ones in ${bits.length} bits`
+  };
+};
+
+// NIST SP 800-22 runs test; it is not applicable, and fails outright, when
+// the ones proportion is already too far from 1/2
+const runsTest = (bits: Uint8Array): TestOutcome => {
+  const n = bits.length;
+  const pi = countOnes(bits) / n;
+  let runs = 1;
+  for (let i = 1; i < n; i++) if (bits[i] !== bits[i - 1]) runs++;
+
+  if (Math.abs(pi - 0.5) >= 2 / Math.sqrt(n)) {
+    return { name: 'runs', statistic: runs, pValue: 0, detail: `${runs} runs; ones proportion ${pi.toFixed(4)} fails the frequency prerequisite` };
+  }
+  const expected = 2 * n * pi * (1 - pi);
+  const statistic = Math.abs(runs - expected) / (2 * Math.sqrt(2 * n) * pi * (1 - pi));
+  return {
+    name: 'runs',
+    statistic,
+    pValue: erfc(statistic),
+    detail: `${runs} runs in ${n} bits, ${expected.toFixed(1)} expected`
+  };
+};
+
+// Each bit position across the values should be set half the time. The most
+// biased position is reported, Bonferroni-corrected for the number of positions.
+const bitPositionTest = (values: bigint[], width: number): TestOutcome => {
+  const m = values.length;
+  let worst = { position: 0, ones: 0, z: -1 };
+  for (let position = 0; position < width; position++) {
+    const ones = values.filter(value => (value >> BigInt(position)) & 1n).length;
+    const z = Math.abs(2 * ones - m) / Math.sqrt(m);
+    if (z > worst.z) worst = { position, ones, z };
+  }
+
+  return {
+    name: 'bit-position',
+    statistic: worst.z,
+    pValue: Math.min(1, width * erfc(worst.z / Math.SQRT2)),
+    detail: `bit ${worst.position} set in ${worst.ones} of ${m} values`
+  };
+};
+
+// Chi-squared goodness of fit of the top bits, using as many bits as keep at
+// least five expected values per bucket
+const leadingBitsTest = (values: bigint[], width: number): TestOutcome => {
+  const m = values.length;
+  const bits = Math.max(1, Math.min(MAX_LEADING_BITS, Math.floor(Math.log2(m / MIN_EXPECTED_PER_BUCKET))));
+  const buckets = new Array<number>(1 << bits).fill(0);
+  values.forEach(value => buckets[Number(value >> BigInt(width - bits))]++);
+
+  const expected = m / buckets.length;
+  const statistic = buckets.reduce((sum, observed) => sum + (observed - expected) ** 2 / expected, 0);
+  return {
+    name: 'leading-bits',
+    statistic,
+    pValue: chiSquaredTail(statistic, buckets.length - 1),
+    detail: `top ${bits} bits over ${m} values, chi-squared ${statistic.toFixed(2)} with ${buckets.length - 1} degrees of freedom`
+  };
+};
+
+// Pairs of values sharing their top 32 bits, against the Poisson birthday
+// bound; full collisions are left to the duplicate nonce check
+const collisionTest = (values: bigint[], width: number): TestOutcome => {
+  const m = values.length;
+  const counts = new Map<bigint, number>();
+  values.forEach(value => {
+    const prefix = value >> BigInt(width - COLLISION_PREFIX_BITS);
+    counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+  });
+
+  let pairs = 0;
+  counts.forEach(count => (pairs += (count * (count - 1)) / 2));
+  const lambda = (m * (m - 1)) / 2 / 2 ** COLLISION_PREFIX_BITS;
+  return {
+    name: 'collisions',
+    statistic: pairs,
+    pValue: poissonTail(pairs, lambda),
+    detail: `${pairs} pairs share their top ${COLLISION_PREFIX_BITS} bits, ${lambda.toExponential(2)} expected`
+  };
+};
+
+// r is the x coordinate of a random point and s is uniform mod n, except that
+// a low-S signer leaves the top bit of s clear, so that bit is left out
+const valueWidths = (signatures: DenovoSignature[]): { r: number; s: number } => ({
+  r: 256,
+  s: signatures.every(sig => sig.scheme === 'ECDSA' && BigInt('0x' + sig.s) <= HALF_N) ? 255 : 256
+});
+
+const runTests = (values: bigint[], width: number): TestOutcome[] => {
+  const bits = toBits(values, width);
+  return [
+    monobitTest(bits),
+    runsTest(bits),
+    bitPositionTest(values, width),
+    leadingBitsTest(values, width),
+    collisionTest(values, width)
+  ];
+};
+
+// Holm step-down over one key's tests at family-wise level alpha: the i-th
+// smallest p-value (from 0) is held to alpha / (m - i), and once one test
+// passes every test with a larger p-value passes too
+const holmCorrection = (pValues: number[], alpha: number): { threshold: number; passed: boolean }[] => {
+  const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+  const results = new Array<{ threshold: number; passed: boolean }>(pValues.length);
+  let rejecting = true;
+  order.forEach((index, rank) => {
+    const threshold = alpha / (pValues.length - rank);
+    rejecting = rejecting && pValues[index] < threshold;
+    results[index] = { threshold, passed: !rejecting };
+  });
+  return results;
+};
+
+// Runs every test over the r and s values of each key with enough signatures.
+// significance is the family-wise error rate of the whole run: it is split
+// evenly across the keys tested (Bonferroni) and Holm-corrected within each.
+export const runNonceTestSuite = (
+  signatures: DenovoSignature[],
+  significance: number = DEFAULT_NONCE_TEST_SIGNIFICANCE
+): NonceTestSuiteResult[] => {
+  const byKey = new Map<string, DenovoSignature[]>();
+  signatures.forEach(sig => {
+    if (!sig.publicKey) return;
+    const key = sig.publicKey.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(sig);
+  });
+
+  const tested = [...byKey].filter(([, sigs]) => sigs.length >= MIN_NONCE_TEST_SIGNATURES);
+  const keyAlpha = significance / Math.max(1, tested.length);
+
+  const results: NonceTestSuiteResult[] = [];
+  tested.forEach(([publicKey, sigs]) => {
+    const widths = valueWidths(sigs);
+
+    const outcomes = (['r', 's'] as const).flatMap(target => {
+      const values = sigs.map(sig => BigInt('0x' + sig[target]));
+      return runTests(values, widths[target]).map(outcome => ({ ...outcome, target }));
+    });
+    const corrected = holmCorrection(outcomes.map(outcome => outcome.pValue), keyAlpha);
+    const tests = outcomes.map((outcome, i) => ({
+      ...outcome,
+      publicKey,
+      samples: sigs.length,
+      ...corrected[i]
+    }));
+
+    results.push({ publicKey, signatures: sigs, tests, passed: tests.every(test => test.passed) });
+  });
+
+  return results;
+};
@@ -0,0 +1,252 @@
+import { ECDSASignature } from '../types/bitcoin';
+import { NonceSystemResult, NonceSystemUnknown, PivotSeeds } from '../types/pivot';
+import { matchPublicKey } from './bitcoinAnalysis';
+import { normalizeR } from './pivotRecovery';
+import { G, mod, modInverse, N, pointMultiply } from './secp256k1';
+
+const DEFAULT_MAX_SIGN_COMBINATIONS = 4096;
+
+export interface LinearSolution {
+  values: (bigint | null)[]; // null where the system leaves the unknown free
+  rank: number;
+  consistent: boolean;
+}
+
+// Gauss-Jordan elimination over the integers mod a prime. An unknown is
+// determined when its pivot row has no entries in free columns.
+export const solveLinearSystemMod = (
+  matrix: bigint[][],
+  rhs: bigint[],
+  modulus: bigint = N
+): LinearSolution => {
+  const columns = matrix[0]?.length ?? 0;
+  const rows = matrix.map((row, i) => [...row, rhs[i]].map(value => mod(value, modulus)));
+  const pivotColumns: number[] = [];
+
+  for (let col = 0; col < columns && pivotColumns.length < rows.length; col++) {
+    const rank = pivotColumns.length;
+    const pivot = rows.findIndex((row, i) => i >= rank && row[col] !== 0n);
+    if (pivot === -1) continue;
+
+    [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+    const inverse = modInverse(rows[rank][col], modulus);
+    rows[rank] = rows[rank].map(value => mod(value * inverse, modulus));
+    rows.forEach((row, i) => {
+      if (i === rank || row[col] === 0n) return;
+      const factor = row[col];
+      rows[i] = row.map((value, j) => mod(value - factor * rows[rank][j], modulus));
+    });
+    pivotColumns.push(col);
+  }
+
+  const rank = pivotColumns.length;
+  const values: (bigint | null)[] = new Array(columns).fill(null);
+  pivotColumns.forEach((col, i) => {
+    const free = rows[i].some((value, j) => j < columns && j !== col && value !== 0n);
+    if (!free) values[col] = rows[i][columns];
+  });
+
+  return {
+    values,
+    rank,
+    consistent: rows.slice(rank).every(row => row[columns] === 0n)
+  };
+};
+
+const normalizeHex = (hex: string): string => hex.trim().toLowerCase();
+
+const signatureX = (sig: ECDSASignature): string => normalizeHex(sig.x || sig.publicKey.slice(2, 66));
+
+// A signature only gives an equation when s, z and the signer's key are known
+export const hasNonceEquation = (sig: ECDSASignature): boolean => Boolean(sig.s && sig.z && signatureX(sig));
+
+// Splits the signatures that give an equation into groups linked through
+// shared r or x values, keeping only groups where some r appears more than once
+export const groupSharedNonceSignatures = (all: ECDSASignature[]): ECDSASignature[][] => {
+  const signatures = all.filter(hasNonceEquation);
+  const parent = signatures.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const firstByKey = new Map<string, number>();
+
+  signatures.forEach((sig, i) => {
+    [`r:${normalizeR(sig.r)}`, `x:${signatureX(sig)}`].forEach(key => {
+      const first = firstByKey.get(key);
+      if (first === undefined) firstByKey.set(key, i);
+      else parent[find(i)] = find(first);
+    });
+  });
+
+  const groups = new Map<number, ECDSASignature[]>();
+  signatures.forEach((sig, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(sig);
+  });
+
+  return [...groups.values()].filter(group => {
+    const rs = new Set(group.map(sig => normalizeR(sig.r)));
+    return rs.size < group.length;
+  });
+};
+
+// Solves one group of signatures for its unknown keys and nonces. Each
+// signature gives s*k - r*d = z (mod n), but a shared r only fixes k up to
+// sign, so every sign choice is tried until the determined values match the
+// public keys and r values.
+export const solveSharedNonceSystem = (
+  signatures: ECDSASignature[],
+  seeds: PivotSeeds = {},
+  maxSignCombinations: number = DEFAULT_MAX_SIGN_COMBINATIONS
+): NonceSystemResult => {
+  const knownKeys = new Map<string, bigint>();
+  const knownNonces = new Map<string, bigint>();
+  Object.entries(seeds.privateKeys ?? {}).forEach(([x, d]) => knownKeys.set(normalizeHex(x), BigInt('0x' + d)));
+  Object.entries(seeds.nonces ?? {}).forEach(([r, k]) => knownNonces.set(normalizeR(r), BigInt('0x' + k)));
+
+  const unknowns: NonceSystemUnknown[] = [];
+  const columns = new Map<string, number>();
+  const columnOf = (kind: NonceSystemUnknown['kind'], key: string): number => {
+    const id = `${kind}:${key}`;
+    if (!columns.has(id)) {
+      columns.set(id, unknowns.length);
+      unknowns.push({ kind, key, determined: false });
+    }
+    return columns.get(id)!;
+  };
+
+  const equations = signatures.map(sig => {
+    const r = normalizeR(sig.r);
+    const x = signatureX(sig);
+    if (!hasNonceEquation(sig)) {
+      throw new Error(`${sig.txid}:${sig.inputIndex}: s, z and the signer's key are needed for the equation system`);
+    }
+    return {
+      sig,
+      r: BigInt('0x' + r),
+      s: BigInt('0x' + sig.s),
+      z: BigInt('0x' + sig.z),
+      nonce: knownNonces.get(r),
+      key: knownKeys.get(x),
+      nonceColumn: knownNonces.has(r) ? -1 : columnOf('r', r),
+      keyColumn: knownKeys.has(x) ? -1 : columnOf('x', x)
+    };
+  });
+
+  // A sign is free for every signature except the first on each unknown
+  // nonce, whose sign just picks which of k and -k the unknown stands for
+  const seen = new Set<number>();
+  const flexible = equations
+    .map((equation, i) => ({ equation, i }))
+    .filter(({ equation }) => {
+      if (equation.nonceColumn === -1 || seen.has(equation.nonceColumn)) return true;
+      seen.add(equation.nonceColumn);
+      return false;
+    })
+    .map(({ i }) => i);
+
+  const combinations = 2 ** flexible.length;
+  if (combinations > maxSignCombinations) {
+    throw new Error(`Solving ${signatures.length} signatures needs ${combinations} sign combinations; the limit is ${maxSignCombinations}`);
+  }
+
+  const verifies = (values: (bigint | null)[]): boolean => {
+    let checked = 0;
+    const ok = values.every((value, col) => {
+      if (value === null) return true;
+      checked++;
+      const unknown = unknowns[col];
+      if (unknown.kind === 'r') {
+        return value !== 0n && mod(pointMultiply(value, G).x, N) === BigInt('0x' + unknown.key);
+      }
+      const owner = equations.find(equation => equation.keyColumn === col)!.sig;
+      return value !== 0n && matchPublicKey(value, owner.publicKey || signatureX(owner)) !== null;
+    });
+    return ok && checked > 0;
+  };
+
+  let fallback: { solution: LinearSolution; signs: number[] } | null = null;
+
+  for (let mask = 0; mask < combinations; mask++) {
+    const signs = equations.map(() => 1);
+    flexible.forEach((index, bit) => {
+      if ((mask >> bit) & 1) signs[index] = -1;
+    });
+
+    const matrix = equations.map(() => new Array<bigint>(unknowns.length).fill(0n));
+    const rhs = equations.map((equation, i) => {
+      const kCoefficient = BigInt(signs[i]) * equation.s;
+      let value = equation.z;
+      if (equation.nonce !== undefined) value -= kCoefficient * equation.nonce;
+      else matrix[i][equation.nonceColumn] = kCoefficient;
+      if (equation.key !== undefined) value += equation.r * equation.key;
+      else matrix[i][equation.keyColumn] = -equation.r;
+      return value;
+    });
+
+    const solution = solveLinearSystemMod(matrix, rhs);
+    if (!solution.consistent) continue;
+    fallback ??= { solution, signs };
+
+    if (verifies(solution.values)) {
+      return {
+        signatures,
+        unknowns: unknowns.map((unknown, col) => {
+          const value = solution.values[col];
+          return value === null
+            ? unknown
+            : { ...unknown, determined: true, value: value.toString(16).padStart(64, '0') };
+        }),
+        equations: equations.length,
+        rank: solution.rank,
+        consistent: true,
+        verified: true,
+        signs
+      };
+    }
+  }
+
+  // Nothing checked out: report what the equations pin down, without values
+  return {
+    signatures,
+    unknowns: unknowns.map((unknown, col) => ({
+      ...unknown,
+      determined: fallback !== null && fallback.solution.values[col] !== null
+    })),
+    equations: equations.length,
+    rank: fallback?.solution.rank ?? 0,
+    consistent: fallback !== null,
+    verified: false,
+    signs: fallback?.signs ?? equations.map(() => 1)
+  };
+};
+
+// Every linked group in a signature set, solved independently; a group that
+// cannot be set up or searched is reported unsolved instead of ending the run.
+// Signatures without an equation are left out and listed with the group
+// whose r they share.
+export const solveSharedNonces = (
+  signatures: ECDSASignature[],
+  seeds: PivotSeeds = {}
+): NonceSystemResult[] => {
+  const incomplete = signatures.filter(sig => !hasNonceEquation(sig));
+
+  return groupSharedNonceSignatures(signatures).map(group => {
+    const rs = new Set(group.map(sig => normalizeR(sig.r)));
+    const skipped = incomplete.filter(sig => rs.has(normalizeR(sig.r)));
+    try {
+      return { ...solveSharedNonceSystem(group, seeds), skipped };
+    } catch (error) {
+      return {
+        signatures: group,
+        skipped,
+        unknowns: [],
+        equations: group.length,
+        rank: 0,
+        consistent: false,
+        verified: false,
+        signs: group.map(() => 1),
+        error: error instanceof Error ? error.message : 'Unsolvable group'
+      };
+    }
+  });
+};
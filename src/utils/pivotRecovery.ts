@@ -0,0 +1,219 @@
+import { ECDSASignature } from '../types/bitcoin';
+import { PivotOptions, PivotRecord, PivotResult } from '../types/pivot';
+import { matchPublicKey, recoverPrivateKey, solveForNonce, solveForPrivateKey } from './bitcoinAnalysis';
+import { N } from './secp256k1';
+
+const DEFAULT_MAX_PASSES = 64;
+
+// Port of pivot.py: seed recoveries from duplicate r values on the same x, then
+// alternate between known nonces -> new private keys and known private keys ->
+// new nonces until a pass recovers nothing new.
+export const runPivotRecovery = async (
+  signatures: ECDSASignature[],
+  options: PivotOptions = {}
+): Promise<PivotResult> => {
+  const { resolveSignature, seeds, signal, onRecord } = options;
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES;
+
+  const dupesR = new Map<string, ECDSASignature[]>();
+  const dupesX = new Map<string, ECDSASignature[]>();
+
+  signatures.forEach(sig => {
+    const r = normalizeR(sig.r);
+    const x = signatureX(sig);
+    if (!r || !x) return;
+
+    if (!dupesR.has(r)) dupesR.set(r, []);
+    if (!dupesX.has(x)) dupesX.set(x, []);
+    dupesR.get(r)!.push(sig);
+    dupesX.get(x)!.push(sig);
+  });
+
+  const privateKeys = new Map<string, bigint>();
+  const nonces = new Map<string, bigint>();
+  Object.entries(seeds?.privateKeys ?? {}).forEach(([x, d]) => privateKeys.set(normalizeHex(x), BigInt('0x' + d)));
+  Object.entries(seeds?.nonces ?? {}).forEach(([r, k]) => nonces.set(normalizeR(r), BigInt('0x' + k)));
+
+  const records: PivotRecord[] = [];
+  const errors: string[] = [];
+  const resolved = new Map<string, Promise<ECDSASignature>>();
+
+  const resolve = (sig: ECDSASignature): Promise<ECDSASignature> => {
+    const id = `${sig.txid}:${sig.inputIndex}`;
+    if (!resolved.has(id)) {
+      resolved.set(id, (async () => {
+        try {
+          const full = isComplete(sig) || !resolveSignature ? sig : await resolveSignature(sig);
+          if (!isComplete(full)) {
+            throw new Error('signature data incomplete');
+          }
+          return full;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(`${id}: ${message}`);
+        }
+      })());
+    }
+    return resolved.get(id)!;
+  };
+
+  const emit = (kind: PivotRecord['kind'], key: string, value: bigint, pass: number, sig: ECDSASignature) => {
+    const record: PivotRecord = {
+      kind,
+      key,
+      value: value.toString(16).padStart(64, '0'),
+      pass,
+      txid: sig.txid,
+      inputIndex: sig.inputIndex
+    };
+    records.push(record);
+    onRecord?.(record);
+  };
+
+  const attempt = async (sigs: ECDSASignature[], action: (full: ECDSASignature[]) => void) => {
+    try {
+      action(await Promise.all(sigs.map(resolve)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (!errors.includes(message)) {
+        errors.push(message);
+      }
+    }
+  };
+
+  const checkAborted = () => {
+    if (signal?.aborted) {
+      throw new Error('Pivot recovery aborted');
+    }
+  };
+
+  // Pass 1: duplicate r values signed by the same key
+  for (const [r, dupes] of dupesR) {
+    if (dupes.length < 2 || nonces.has(r)) continue;
+
+    let solved = false;
+    for (let i = 0; i < dupes.length && !solved; i++) {
+      for (let j = i + 1; j < dupes.length && !solved; j++) {
+        checkAborted();
+        const x = signatureX(dupes[i]);
+        if (x !== signatureX(dupes[j])) continue;
+
+        await attempt([dupes[i], dupes[j]], ([sig1, sig2]) => {
+          const result = solveDuplicateR(sig1, sig2);
+          if (result) {
+            nonces.set(r, result.k);
+            privateKeys.set(x, result.privateKey);
+            emit('r', r, result.k, 1, sig1);
+            emit('x', x, result.privateKey, 1, sig1);
+            solved = true;
+          }
+        });
+      }
+    }
+  }
+
+  let passes = 1;
+  let looping = true;
+
+  while (looping && passes < maxPasses) {
+    passes++;
+    looping = false;
+
+    // Known nonce -> private keys of every other signer that used it
+    for (const [r, dupes] of dupesR) {
+      const k = nonces.get(r);
+      if (k === undefined) continue;
+
+      for (const dupe of dupes) {
+        checkAborted();
+        const x = signatureX(dupe);
+        if (privateKeys.has(x)) continue;
+
+        await attempt([dupe], ([full]) => {
+          // k and -k share the same r, and either may match once s was normalized
+          for (const candidate of [k, N - k]) {
+            const d = solveForPrivateKey(BigInt('0x' + full.r), BigInt('0x' + full.s), BigInt('0x' + full.z), candidate);
+            if (matchesPublicKey(d, full)) {
+              privateKeys.set(x, d);
+              emit('x', x, d, passes, full);
+              looping = true;
+              break;
+            }
+          }
+        });
+      }
+    }
+
+    // Known private key -> nonces of every other signature by that key
+    for (const [x, dupes] of dupesX) {
+      const d = privateKeys.get(x);
+      if (d === undefined) continue;
+
+      for (const dupe of dupes) {
+        checkAborted();
+        const r = normalizeR(dupe.r);
+        if (nonces.has(r)) continue;
+
+        await attempt([dupe], ([full]) => {
+          const k = solveForNonce(BigInt('0x' + full.r), BigInt('0x' + full.s), BigInt('0x' + full.z), d);
+          nonces.set(r, k);
+          emit('r', r, k, passes, full);
+          looping = true;
+        });
+      }
+    }
+  }
+
+  return {
+    records,
+    privateKeys: toHexRecord(privateKeys),
+    nonces: toHexRecord(nonces),
+    passes,
+    errors
+  };
+};
+
+// Same output lines as pivot.py: `secret:key:kind:pass`
+export const formatPivotRecord = (record: PivotRecord): string => {
+  return `${record.value}:${record.key}:${record.kind}:${record.pass}`;
+};
+
+// pivot.py's solve_dupe_r via recoverPrivateKey, which tries every s sign
+// combination; falls back to the bare x when the signature has no full key
+const solveDuplicateR = (
+  sig1: ECDSASignature,
+  sig2: ECDSASignature
+): { k: bigint; privateKey: bigint } | null => {
+  try {
+    const result = recoverPrivateKey(sig1.r, sig1.s, sig2.s, sig1.z, sig2.z, sig1.publicKey || signatureX(sig1));
+    return { k: BigInt('0x' + result.nonce!), privateKey: BigInt('0x' + result.privateKey) };
+  } catch {
+    return null;
+  }
+};
+
+const matchesPublicKey = (privateKey: bigint, sig: ECDSASignature): boolean => {
+  return matchPublicKey(privateKey, sig.publicKey || signatureX(sig)) !== null;
+};
+
+const signatureX = (sig: ECDSASignature): string => {
+  return normalizeHex(sig.x || sig.publicKey.slice(2, 66));
+};
+
+const isComplete = (sig: ECDSASignature): boolean => {
+  return Boolean(sig.r && sig.s && sig.z && (sig.publicKey || sig.x));
+};
+
+const normalizeHex = (hex: string): string => hex.trim().toLowerCase();
+
+// r as the nonce tables key it: DER-style leading zero bytes stripped, then
+// padded to 64 characters as parseDupeEntry does
+export const normalizeR = (r: string): string => normalizeHex(r).replace(/^(00)+/, '').padStart(64, '0');
+
+const toHexRecord = (values: Map<string, bigint>): Record<string, string> => {
+  const result: Record<string, string> = {};
+  values.forEach((value, key) => {
+    result[key] = value.toString(16).padStart(64, '0');
+  });
+  return result;
+};
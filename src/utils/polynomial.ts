@@ -0,0 +1,147 @@
+import { mod, modInverse, N } from './secp256k1';
+
+// Polynomials over the integers mod a prime, as coefficient arrays lowest
+// degree first. Results never carry zero leading coefficients, so the zero
+// polynomial is [] and the degree is length - 1.
+export type Polynomial = bigint[];
+
+const trim = (poly: Polynomial): Polynomial => {
+  let end = poly.length;
+  while (end > 0 && poly[end - 1] === 0n) end--;
+  return poly.slice(0, end);
+};
+
+export const polyDegree = (poly: Polynomial): number => trim(poly).length - 1;
+
+export const polyEval = (poly: Polynomial, x: bigint, modulus: bigint = N): bigint => {
+  return poly.reduceRight((acc, coefficient) => mod(acc * x + coefficient, modulus), 0n);
+};
+
+export const polyAdd = (a: Polynomial, b: Polynomial, modulus: bigint = N): Polynomial => {
+  const length = Math.max(a.length, b.length);
+  return trim(Array.from({ length }, (_, i) => mod((a[i] ?? 0n) + (b[i] ?? 0n), modulus)));
+};
+
+export const polySub = (a: Polynomial, b: Polynomial, modulus: bigint = N): Polynomial => {
+  return polyAdd(a, b.map(coefficient => -coefficient), modulus);
+};
+
+export const polyMul = (a: Polynomial, b: Polynomial, modulus: bigint = N): Polynomial => {
+  if (a.length === 0 || b.length === 0) return [];
+  const product = new Array<bigint>(a.length + b.length - 1).fill(0n);
+  a.forEach((x, i) => b.forEach((y, j) => {
+    product[i + j] += x * y;
+  }));
+  return trim(product.map(coefficient => mod(coefficient, modulus)));
+};
+
+export const polyDivMod = (
+  a: Polynomial,
+  b: Polynomial,
+  modulus: bigint = N
+): { quotient: Polynomial; remainder: Polynomial } => {
+  const divisor = trim(b);
+  if (divisor.length === 0) {
+    throw new Error('Polynomial division by zero');
+  }
+
+  const remainder = trim(a).map(coefficient => mod(coefficient, modulus));
+  const shift = remainder.length - divisor.length;
+  if (shift < 0) return { quotient: [], remainder };
+
+  const quotient = new Array<bigint>(shift + 1).fill(0n);
+  const leadInverse = modInverse(divisor[divisor.length - 1], modulus);
+  for (let i = shift; i >= 0; i--) {
+    const factor = mod(remainder[i + divisor.length - 1] * leadInverse, modulus);
+    quotient[i] = factor;
+    if (factor === 0n) continue;
+    divisor.forEach((coefficient, j) => {
+      remainder[i + j] = mod(remainder[i + j] - factor * coefficient, modulus);
+    });
+  }
+
+  return { quotient: trim(quotient), remainder: trim(remainder) };
+};
+
+const monic = (poly: Polynomial, modulus: bigint): Polynomial => {
+  const trimmed = trim(poly);
+  if (trimmed.length === 0) return trimmed;
+  const inverse = modInverse(trimmed[trimmed.length - 1], modulus);
+  return trimmed.map(coefficient => mod(coefficient * inverse, modulus));
+};
+
+export const polyGcd = (a: Polynomial, b: Polynomial, modulus: bigint = N): Polynomial => {
+  let [x, y] = [trim(a), trim(b)];
+  while (y.length > 0) {
+    [x, y] = [y, polyDivMod(x, y, modulus).remainder];
+  }
+  return monic(x, modulus);
+};
+
+// base^exponent reduced mod another polynomial
+export const polyPowMod = (
+  base: Polynomial,
+  exponent: bigint,
+  divisor: Polynomial,
+  modulus: bigint = N
+): Polynomial => {
+  let result: Polynomial = [1n];
+  let square = polyDivMod(base, divisor, modulus).remainder;
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = polyDivMod(polyMul(result, square, modulus), divisor, modulus).remainder;
+    }
+    exponent >>= 1n;
+    square = polyDivMod(polyMul(square, square, modulus), divisor, modulus).remainder;
+  }
+  return result;
+};
+
+// Lagrange interpolation through (xs[i], ys[i]); the xs must be distinct
+export const interpolate = (xs: bigint[], ys: bigint[], modulus: bigint = N): Polynomial => {
+  let result: Polynomial = [];
+  xs.forEach((xi, i) => {
+    let basis: Polynomial = [1n];
+    let denominator = 1n;
+    xs.forEach((xj, j) => {
+      if (i === j) return;
+      basis = polyMul(basis, [mod(-xj, modulus), 1n], modulus);
+      denominator = mod(denominator * (xi - xj), modulus);
+    });
+    const scale = mod(ys[i] * modInverse(denominator, modulus), modulus);
+    result = polyAdd(result, basis.map(coefficient => coefficient * scale), modulus);
+  });
+  return result;
+};
+
+// Splits a product of distinct linear factors (Cantor-Zassenhaus): for a
+// shift t, (x + t)^((p-1)/2) - 1 vanishes on roughly half of the roots
+const splitLinearFactors = (poly: Polynomial, modulus: bigint): bigint[] => {
+  const degree = polyDegree(poly);
+  if (degree < 1) return [];
+  if (degree === 1) return [mod(-poly[0] * modInverse(poly[1], modulus), modulus)];
+
+  const half = (modulus - 1n) / 2n;
+  for (let shift = 1n; ; shift++) {
+    const power = polyPowMod([shift, 1n], half, poly, modulus);
+    const factor = polyGcd(poly, polySub(power, [1n], modulus), modulus);
+    const factorDegree = polyDegree(factor);
+    if (factorDegree > 0 && factorDegree < degree) {
+      return [
+        ...splitLinearFactors(factor, modulus),
+        ...splitLinearFactors(polyDivMod(poly, factor, modulus).quotient, modulus)
+      ];
+    }
+  }
+};
+
+// Distinct roots in the prime field: gcd(f, x^p - x) keeps exactly the
+// linear factors, which are then split apart
+export const polyRoots = (poly: Polynomial, modulus: bigint = N): bigint[] => {
+  const f = monic(poly, modulus);
+  if (f.length < 2) return [];
+
+  const frobenius = polyPowMod([0n, 1n], modulus, f, modulus);
+  const linear = polyGcd(f, polySub(frobenius, [0n, 1n], modulus), modulus);
+  return splitLinearFactors(linear, modulus).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+};
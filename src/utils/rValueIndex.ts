@@ -0,0 +1,211 @@
+import { Transaction } from '../types/bitcoin';
+import { ChainDataProvider } from '../types/chain';
+import { assignBlockHeights, parseBlkFile, parseBlock, ParsedBlock } from './block';
+import { DupeEntry, dupeKeySign, formatDupeLine, parseDupeEntry } from './dupeFile';
+import { extractInputSignature, parseTransaction } from './transaction';
+
+// Saved scanner state: the height ranges already walked and every signature
+// seen so far, as .dupe lines. Loading it lets a scan continue where it stopped.
+export interface RIndexCheckpoint {
+  ranges: [number, number][]; // inclusive, sorted, non-overlapping
+  lines: string[];
+}
+
+export interface RIndexProgress {
+  height: number;
+  scannedBlocks: number;
+  totalBlocks: number;
+  signatures: number;
+}
+
+// The signature and key of every ECDSA input in a transaction. Inputs that
+// do not reveal a key (P2PK, bare multisig, Taproot) are skipped.
+export const extractDupeEntries = (tx: Transaction, height: number): DupeEntry[] => {
+  const entries: DupeEntry[] = [];
+
+  tx.vin.forEach((_, inputIndex) => {
+    try {
+      const signature = extractInputSignature(tx, inputIndex);
+      if (!signature.publicKey) return;
+      entries.push({
+        height,
+        txid: tx.txid,
+        inputIndex,
+        r: signature.r,
+        x: signature.x,
+        ysign: dupeKeySign(signature.publicKey)
+      });
+    } catch {
+      // Coinbase and non-ECDSA inputs carry nothing to index
+    }
+  });
+
+  return entries;
+};
+
+// Inserts a height into a sorted list of inclusive ranges, merging neighbours
+const addToRanges = (ranges: [number, number][], height: number): [number, number][] => {
+  const merged: [number, number][] = [];
+
+  [...ranges, [height, height]].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  return merged;
+};
+
+// Builds the rrr.dupe index pivot.py starts from: every signature's r and
+// key, keeping only r values that occur more than once
+export class RValueIndexBuilder {
+  private byR = new Map<string, DupeEntry[]>();
+  private ranges: [number, number][] = [];
+  private count = 0;
+  // Block hash to height, so blocks from later blk*.dat files can link to earlier ones
+  private knownHeights = new Map<string, number>();
+
+  constructor(checkpoint?: RIndexCheckpoint) {
+    if (checkpoint) {
+      this.ranges = checkpoint.ranges.map(([start, end]) => [start, end]);
+      checkpoint.lines.forEach(line => this.add(parseDupeEntry(line)));
+    }
+  }
+
+  get scannedRanges(): [number, number][] {
+    return this.ranges.map(([start, end]) => [start, end]);
+  }
+
+  get signatureCount(): number {
+    return this.count;
+  }
+
+  get duplicateCount(): number {
+    let count = 0;
+    this.byR.forEach(entries => {
+      if (entries.length > 1) count++;
+    });
+    return count;
+  }
+
+  isScanned(height: number): boolean {
+    return this.ranges.some(([start, end]) => height >= start && height <= end);
+  }
+
+  // Returns the number of signatures added; a height already scanned adds none
+  addBlock(height: number, transactions: Transaction[]): number {
+    if (this.isScanned(height)) return 0;
+
+    let added = 0;
+    transactions.forEach(tx => {
+      extractDupeEntries(tx, height).forEach(entry => {
+        if (this.add(entry)) added++;
+      });
+    });
+    this.ranges = addToRanges(this.ranges, height);
+    return added;
+  }
+
+  // Parsed blocks in any order, e.g. from blk*.dat. Heights come from
+  // previous-block links or the BIP34 coinbase; blocks that get neither are
+  // returned as unplaced.
+  addBlocks(blocks: ParsedBlock[]): { added: number; unplaced: string[] } {
+    const heights = assignBlockHeights(blocks, this.knownHeights);
+    const unplaced: string[] = [];
+    let added = 0;
+
+    blocks.forEach(block => {
+      const height = heights.get(block.hash);
+      if (height === undefined) {
+        unplaced.push(block.hash);
+        return;
+      }
+      this.knownHeights.set(block.hash, height);
+      added += this.addBlock(height, block.transactions);
+    });
+
+    return { added, unplaced };
+  }
+
+  // A raw block file; the height is worked out as for addBlocks unless given
+  addRawBlock(rawHex: string, height?: number): number {
+    const block = parseBlock(rawHex);
+    if (height !== undefined) {
+      this.knownHeights.set(block.hash, height);
+      return this.addBlock(height, block.transactions);
+    }
+
+    const { added, unplaced } = this.addBlocks([block]);
+    if (unplaced.length > 0) {
+      throw new Error(`Block ${block.hash} predates BIP34; give its height explicitly`);
+    }
+    return added;
+  }
+
+  addBlkFile(data: Uint8Array, xorKey?: Uint8Array): { blocks: number; added: number; unplaced: string[] } {
+    const blocks = parseBlkFile(data, xorKey);
+    return { blocks: blocks.length, ...this.addBlocks(blocks) };
+  }
+
+  // Walks start..end (inclusive), skipping heights a checkpoint already covers
+  async scanProvider(
+    provider: ChainDataProvider,
+    start: number,
+    end: number,
+    options: { signal?: AbortSignal; onProgress?: (progress: RIndexProgress) => void } = {}
+  ): Promise<void> {
+    if (start > end) {
+      throw new Error(`Start height ${start} is above end height ${end}`);
+    }
+
+    const totalBlocks = end - start + 1;
+    for (let height = start; height <= end; height++) {
+      if (options.signal?.aborted) {
+        throw new Error(`Scan stopped at height ${height}`);
+      }
+      if (!this.isScanned(height)) {
+        const block = await provider.getBlock(height);
+        this.knownHeights.set(block.hash, height);
+        this.addBlock(height, block.transactions.map(tx => parseTransaction(tx.hex)));
+      }
+      options.onProgress?.({
+        height,
+        scannedBlocks: height - start + 1,
+        totalBlocks,
+        signatures: this.count
+      });
+    }
+  }
+
+  // Repeated r values only, grouped by r and ordered by height within a group
+  duplicates(): DupeEntry[] {
+    return [...this.byR.entries()]
+      .filter(([, entries]) => entries.length > 1)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .flatMap(([, entries]) => [...entries].sort((a, b) => a.height - b.height || a.inputIndex - b.inputIndex));
+  }
+
+  toDupeFile(): string {
+    return this.duplicates().map(entry => formatDupeLine(entry) + '\n').join('');
+  }
+
+  toCheckpoint(): RIndexCheckpoint {
+    const lines: string[] = [];
+    this.byR.forEach(entries => entries.forEach(entry => lines.push(formatDupeLine(entry))));
+    return { ranges: this.scannedRanges, lines };
+  }
+
+  private add(entry: DupeEntry): boolean {
+    const group = this.byR.get(entry.r);
+    // The same input seen twice (an overlapping raw file) counts once
+    if (group?.some(other => other.txid === entry.txid && other.inputIndex === entry.inputIndex)) return false;
+
+    if (group) group.push(entry);
+    else this.byR.set(entry.r, [entry]);
+    this.count++;
+    return true;
+  }
+}
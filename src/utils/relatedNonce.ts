@@ -0,0 +1,194 @@
+import { DenovoNonceRelation, DenovoSignature } from '../types/denovo';
+import { matchPublicKey } from './bitcoinAnalysis';
+import { decodePoint, G, mod, modInverse, N, Point, pointAdd, pointMultiply, pointNegate } from './secp256k1';
+
+export const DEFAULT_MAX_COUNTER_OFFSET = 4096;
+
+// k2 = a*k1 + b (mod n)
+export interface NonceRelation {
+  a: bigint;
+  b: bigint;
+}
+
+export interface RelatedNonceRecovery {
+  publicKey: string;
+  privateKey: string;
+  nonce: string; // k of the first signature
+  relation: NonceRelation;
+  signatures: [DenovoSignature, DenovoSignature];
+}
+
+interface SignatureValues {
+  r: bigint;
+  s: bigint;
+  z: bigint;
+}
+
+const toValues = (sig: DenovoSignature): SignatureValues => ({
+  r: BigInt('0x' + sig.r),
+  s: BigInt('0x' + sig.s),
+  z: BigInt('0x' + sig.z)
+});
+
+export const parseNonceRelation = (relation: DenovoNonceRelation): NonceRelation => {
+  try {
+    return { a: mod(BigInt(relation.a.trim()), N), b: mod(BigInt(relation.b.trim()), N) };
+  } catch {
+    throw new Error(`Invalid nonce relation a=${relation.a}, b=${relation.b}`);
+  }
+};
+
+// Coefficients as signed values when small, so the report reads k2 = k1 - 1
+const signedCoefficient = (value: bigint): bigint => (value > N / 2n ? value - N : value);
+
+export const formatNonceRelation = ({ a, b }: NonceRelation): string => {
+  const multiplier = signedCoefficient(a);
+  const offset = signedCoefficient(b);
+  const term = multiplier === 1n ? 'k1' : multiplier === -1n ? '-k1' : `${multiplier}*k1`;
+  if (offset === 0n) return `k2 = ${term}`;
+  return `k2 = ${term} ${offset < 0n ? '-' : '+'} ${offset < 0n ? -offset : offset}`;
+};
+
+// Each signature gives k = sign * (z + r*d) / s, the sign standing for a
+// possible low-S negation. Substituting both into k2 = a*k1 + b leaves
+// C*d = A + b with:
+//   C = sign2*r2/s2 - a*sign1*r1/s1
+//   A = a*sign1*z1/s1 - sign2*z2/s2
+const relationTerms = (
+  first: SignatureValues,
+  second: SignatureValues,
+  a: bigint,
+  sign1: bigint,
+  sign2: bigint
+): { A: bigint; C: bigint } => {
+  const u1 = modInverse(first.s, N);
+  const u2 = modInverse(second.s, N);
+  return {
+    A: mod(a * sign1 * u1 * first.z - sign2 * u2 * second.z, N),
+    C: mod(sign2 * u2 * second.r - a * sign1 * u1 * first.r, N)
+  };
+};
+
+const nonceFor = (values: SignatureValues, privateKey: bigint): bigint => {
+  return mod((values.z + values.r * privateKey) * modInverse(values.s, N), N);
+};
+
+const SIGN_PAIRS: [bigint, bigint][] = [[1n, 1n], [1n, -1n], [-1n, 1n], [-1n, -1n]];
+
+// Recovers d from two signatures by one key whose nonces satisfy the given
+// relation, checking the result against the signer's public key
+export const solveNonceRelation = (
+  first: DenovoSignature,
+  second: DenovoSignature,
+  relation: NonceRelation
+): RelatedNonceRecovery | null => {
+  const v1 = toValues(first);
+  const v2 = toValues(second);
+
+  for (const [sign1, sign2] of SIGN_PAIRS) {
+    const { A, C } = relationTerms(v1, v2, relation.a, sign1, sign2);
+    if (C === 0n) continue;
+
+    const privateKey = mod((A + relation.b) * modInverse(C, N), N);
+    if (privateKey === 0n || !matchPublicKey(privateKey, first.publicKey)) continue;
+
+    return {
+      publicKey: first.publicKey,
+      privateKey: privateKey.toString(16).padStart(64, '0'),
+      // Signed to match the relation, which holds for the nonces as published
+      nonce: mod(sign1 * nonceFor(v1, privateKey), N).toString(16).padStart(64, '0'),
+      relation,
+      signatures: [first, second]
+    };
+  }
+
+  return null;
+};
+
+// x coordinate of b*G for b = 1..limit; -b*G shares it with the other y
+let counterTable: { limit: number; points: Map<bigint, { b: bigint; y: bigint }> } | null = null;
+
+const counterPoints = (limit: number): Map<bigint, { b: bigint; y: bigint }> => {
+  if (counterTable && counterTable.limit >= limit) return counterTable.points;
+
+  const points = new Map<bigint, { b: bigint; y: bigint }>();
+  let point: Point = G;
+  for (let b = 1; b <= limit; b++) {
+    points.set(point.x, { b: BigInt(b), y: point.y });
+    point = pointAdd(point, G);
+  }
+  counterTable = { limit, points };
+  return points;
+};
+
+// Searches k2 = k1 + b for every |b| <= maxOffset at once: C*d = A + b means
+// C*Q - A*G = b*G, so one point per sign choice is looked up in a table of
+// small multiples of G instead of trying each offset
+export const searchCounterRelation = (
+  first: DenovoSignature,
+  second: DenovoSignature,
+  maxOffset: number = DEFAULT_MAX_COUNTER_OFFSET
+): RelatedNonceRecovery | null => {
+  const table = counterPoints(maxOffset);
+  const v1 = toValues(first);
+  const v2 = toValues(second);
+  const publicKey = decodePoint(first.publicKey);
+
+  // Negating both signs only negates b, so the first sign can stay fixed
+  for (const sign2 of [1n, -1n]) {
+    const { A, C } = relationTerms(v1, v2, 1n, 1n, sign2);
+    if (C === 0n) continue;
+
+    const target = pointAdd(pointMultiply(C, publicKey), pointNegate(pointMultiply(A, G)));
+    const entry = target.infinity ? undefined : table.get(target.x);
+    if (!entry || entry.b > BigInt(maxOffset)) continue;
+
+    const b = entry.y === target.y ? entry.b : -entry.b;
+    const result = solveNonceRelation(first, second, { a: 1n, b: mod(b, N) });
+    if (result) return result;
+  }
+
+  return null;
+};
+
+// Every ECDSA key with two or more usable signatures, tried pair by pair
+// against the given relation (in both orders) and the counter search. One
+// recovery is reported per key. maxPairDistance keeps to pairs at most that
+// many signatures apart in the order given.
+export const findRelatedNonces = (
+  signatures: DenovoSignature[],
+  options: { maxOffset?: number; relation?: NonceRelation; maxPairDistance?: number } = {}
+): RelatedNonceRecovery[] => {
+  const byKey = new Map<string, DenovoSignature[]>();
+  signatures.forEach(sig => {
+    if (sig.scheme !== 'ECDSA' || !sig.z || !sig.publicKey) return;
+    const key = sig.publicKey.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(sig);
+  });
+
+  const maxOffset = options.maxOffset ?? DEFAULT_MAX_COUNTER_OFFSET;
+  const maxPairDistance = options.maxPairDistance ?? Infinity;
+  const recoveries: RelatedNonceRecovery[] = [];
+
+  byKey.forEach(sigs => {
+    for (let i = 0; i < sigs.length; i++) {
+      for (let j = i + 1; j < sigs.length && j - i <= maxPairDistance; j++) {
+        // A repeated r is a plain duplicate nonce, reported on its own
+        if (sigs[i].r.toLowerCase() === sigs[j].r.toLowerCase()) continue;
+
+        const result = (options.relation && (
+          solveNonceRelation(sigs[i], sigs[j], options.relation) ||
+          solveNonceRelation(sigs[j], sigs[i], options.relation)
+        )) || (maxOffset > 0 ? searchCounterRelation(sigs[i], sigs[j], maxOffset) : null);
+
+        if (result) {
+          recoveries.push(result);
+          return;
+        }
+      }
+    }
+  });
+
+  return recoveries;
+};
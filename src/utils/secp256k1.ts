@@ -0,0 +1,297 @@
+// Secp256k1 curve parameters: y^2 = x^3 + 7 over F_p, generator G of order n
+export const P = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F');
+export const N = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
+export const HALF_N = N / 2n;
+
+// Affine point; infinity marks the identity
+export interface Point {
+  x: bigint;
+  y: bigint;
+  infinity?: boolean;
+}
+
+export const G: Point = {
+  x: BigInt('0x79BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798'),
+  y: BigInt('0x483ADA7726A3C4655DA4FBFC0E1108A8FD17B448A68554199C47D08FFB10D4B8')
+};
+
+export const INFINITY: Point = { x: 0n, y: 0n, infinity: true };
+
+// Jacobian point (X / Z^2, Y / Z^3); Z = 0 is the identity
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+const JACOBIAN_INFINITY: JacobianPoint = { x: 0n, y: 1n, z: 0n };
+const WNAF_WINDOW = 5;
+
+// Modular arithmetic helpers
+export const mod = (a: bigint, m: bigint = P): bigint => {
+  const result = a % m;
+  return result < 0n ? result + m : result;
+};
+
+// Extended Euclidean Algorithm for modular inverse
+export const modInverse = (a: bigint, m: bigint): bigint => {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [1n, 0n];
+
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+
+  if (oldR !== 1n) throw new Error('Modular inverse does not exist');
+  return mod(oldS, m);
+};
+
+export const modPow = (base: bigint, exp: bigint, m: bigint): bigint => {
+  let result = 1n;
+  base = mod(base, m);
+
+  while (exp > 0n) {
+    if (exp & 1n) {
+      result = (result * base) % m;
+    }
+    exp >>= 1n;
+    base = (base * base) % m;
+  }
+
+  return result;
+};
+
+// Square root mod p; p = 3 mod 4, so a^((p+1)/4) is a root when one exists
+export const modSqrt = (a: bigint): bigint | null => {
+  const root = modPow(a, (P + 1n) / 4n, P);
+  return (root * root) % P === mod(a) ? root : null;
+};
+
+const toJacobian = (point: Point): JacobianPoint => {
+  return point.infinity ? JACOBIAN_INFINITY : { x: point.x, y: point.y, z: 1n };
+};
+
+const toAffine = (point: JacobianPoint): Point => {
+  if (point.z === 0n) return INFINITY;
+
+  const zInv = modInverse(point.z, P);
+  const zInv2 = (zInv * zInv) % P;
+  return {
+    x: (point.x * zInv2) % P,
+    y: (point.y * zInv2 * zInv) % P
+  };
+};
+
+// dbl-2009-l (a = 0)
+const jacobianDouble = (p: JacobianPoint): JacobianPoint => {
+  if (p.z === 0n || p.y === 0n) return JACOBIAN_INFINITY;
+
+  const a = (p.x * p.x) % P;
+  const b = (p.y * p.y) % P;
+  const c = (b * b) % P;
+  const d = mod(2n * ((p.x + b) * (p.x + b) - a - c));
+  const e = (3n * a) % P;
+  const f = (e * e) % P;
+  const x3 = mod(f - 2n * d);
+
+  return {
+    x: x3,
+    y: mod(e * (d - x3) - 8n * c),
+    z: (2n * p.y * p.z) % P
+  };
+};
+
+// add-2007-bl without the Z1 = Z2 shortcut
+const jacobianAdd = (p1: JacobianPoint, p2: JacobianPoint): JacobianPoint => {
+  if (p1.z === 0n) return p2;
+  if (p2.z === 0n) return p1;
+
+  const z1z1 = (p1.z * p1.z) % P;
+  const z2z2 = (p2.z * p2.z) % P;
+  const u1 = (p1.x * z2z2) % P;
+  const u2 = (p2.x * z1z1) % P;
+  const s1 = (p1.y * p2.z * z2z2) % P;
+  const s2 = (p2.y * p1.z * z1z1) % P;
+
+  const h = mod(u2 - u1);
+  const r = mod(s2 - s1);
+  if (h === 0n) {
+    return r === 0n ? jacobianDouble(p1) : JACOBIAN_INFINITY;
+  }
+
+  const h2 = (h * h) % P;
+  const h3 = (h * h2) % P;
+  const u1h2 = (u1 * h2) % P;
+  const x3 = mod(r * r - h3 - 2n * u1h2);
+
+  return {
+    x: x3,
+    y: mod(r * (u1h2 - x3) - s1 * h3),
+    z: (h * p1.z * p2.z) % P
+  };
+};
+
+const jacobianNegate = (p: JacobianPoint): JacobianPoint => ({ x: p.x, y: mod(-p.y), z: p.z });
+
+export const pointAdd = (p1: Point, p2: Point): Point => {
+  return toAffine(jacobianAdd(toJacobian(p1), toJacobian(p2)));
+};
+
+export const pointDouble = (p: Point): Point => toAffine(jacobianDouble(toJacobian(p)));
+
+export const pointNegate = (p: Point): Point => {
+  return p.infinity ? p : { x: p.x, y: mod(-p.y) };
+};
+
+// Width-w non-adjacent form, least significant digit first. Every non-zero
+// digit is odd and followed by at least w - 1 zeros.
+const wnaf = (k: bigint, w: number): number[] => {
+  const width = 1n << BigInt(w);
+  const digits: number[] = [];
+
+  while (k > 0n) {
+    let digit = 0n;
+    if (k & 1n) {
+      digit = k % width;
+      if (digit >= width >> 1n) digit -= width;
+      k -= digit;
+    }
+    digits.push(Number(digit));
+    k >>= 1n;
+  }
+
+  return digits;
+};
+
+// Odd multiples P, 3P, 5P, ... (2^(w-1) - 1)P
+const oddMultiples = (point: JacobianPoint, w: number): JacobianPoint[] => {
+  const table = [point];
+  const twice = jacobianDouble(point);
+  for (let i = 1; i < 1 << (w - 2); i++) {
+    table.push(jacobianAdd(table[i - 1], twice));
+  }
+  return table;
+};
+
+let generatorTable: JacobianPoint[] | null = null;
+
+const jacobianMultiply = (k: bigint, table: JacobianPoint[]): JacobianPoint => {
+  const digits = wnaf(k, WNAF_WINDOW);
+  let result = JACOBIAN_INFINITY;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result = jacobianDouble(result);
+    const digit = digits[i];
+    if (digit > 0) {
+      result = jacobianAdd(result, table[(digit - 1) >> 1]);
+    } else if (digit < 0) {
+      result = jacobianAdd(result, jacobianNegate(table[(-digit - 1) >> 1]));
+    }
+  }
+
+  return result;
+};
+
+export const pointMultiply = (k: bigint, point: Point): Point => {
+  const scalar = mod(k, N);
+  if (scalar === 0n || point.infinity) return INFINITY;
+
+  const table = point === G
+    ? (generatorTable ??= oddMultiples(toJacobian(G), WNAF_WINDOW))
+    : oddMultiples(toJacobian(point), WNAF_WINDOW);
+  return toAffine(jacobianMultiply(scalar, table));
+};
+
+// x coordinates of k*G for k = 1..count, handed out in batches that share a
+// single field inversion (Montgomery's trick) instead of one per point
+export const generatorMultiplesX = (
+  count: number,
+  onBatch: (firstK: number, xs: bigint[]) => void,
+  batchSize: number = 1024
+): void => {
+  const generator = toJacobian(G);
+  let current = generator;
+
+  for (let first = 1; first <= count; first += batchSize) {
+    const points: JacobianPoint[] = [];
+    for (let k = first; k < first + batchSize && k <= count; k++) {
+      points.push(current);
+      current = jacobianAdd(current, generator);
+    }
+
+    // prefix[i] = z_0 * ... * z_i; one inverse of the total unwinds them all
+    const prefix: bigint[] = [];
+    points.forEach((point, i) => prefix.push(i === 0 ? point.z : (prefix[i - 1] * point.z) % P));
+    let inverse = modInverse(prefix[prefix.length - 1], P);
+    const xs = new Array<bigint>(points.length);
+    for (let i = points.length - 1; i >= 0; i--) {
+      const zInv = i === 0 ? inverse : (inverse * prefix[i - 1]) % P;
+      inverse = (inverse * points[i].z) % P;
+      xs[i] = (points[i].x * zInv * zInv) % P;
+    }
+    onBatch(first, xs);
+  }
+};
+
+// Convert private key to public key
+export const privateToPublic = (privateKey: bigint): Point => pointMultiply(privateKey, G);
+
+export const isOnCurve = (point: Point): boolean => {
+  if (point.infinity) return false;
+  if (point.x < 0n || point.x >= P || point.y < 0n || point.y >= P) return false;
+  return (point.y * point.y - (point.x * point.x * point.x + 7n)) % P === 0n;
+};
+
+export const isValidPrivateKey = (privateKey: bigint): boolean => {
+  return privateKey > 0n && privateKey < N;
+};
+
+// Point for an x coordinate with the requested y parity (BIP340 lift_x when even)
+export const liftX = (x: bigint, odd: boolean = false): Point => {
+  if (x >= P) throw new Error('x coordinate out of range');
+
+  const y = modSqrt(x * x * x + 7n);
+  if (y === null) throw new Error('x coordinate is not on the curve');
+  return { x, y: (y & 1n) === (odd ? 1n : 0n) ? y : P - y };
+};
+
+// SEC1 encoding: 02/03 + x when compressed, 04 + x + y otherwise
+export const encodePoint = (point: Point, compressed: boolean = true): string => {
+  if (point.infinity) throw new Error('Cannot encode the point at infinity');
+
+  const x = point.x.toString(16).padStart(64, '0');
+  if (compressed) {
+    return `${point.y & 1n ? '03' : '02'}${x}`;
+  }
+  return `04${x}${point.y.toString(16).padStart(64, '0')}`;
+};
+
+// Decodes SEC1 compressed/uncompressed keys and 32-byte BIP340 x-only keys,
+// rejecting anything that is not on the curve
+export const decodePoint = (hex: string): Point => {
+  const clean = hex.trim().toLowerCase();
+  if (!/^[0-9a-f]+$/.test(clean)) {
+    throw new Error('Invalid public key hex');
+  }
+
+  if (clean.length === 64) {
+    return liftX(BigInt('0x' + clean));
+  }
+
+  const prefix = clean.slice(0, 2);
+  if (clean.length === 66 && (prefix === '02' || prefix === '03')) {
+    return liftX(BigInt('0x' + clean.slice(2)), prefix === '03');
+  }
+
+  if (clean.length === 130 && prefix === '04') {
+    const point = { x: BigInt('0x' + clean.slice(2, 66)), y: BigInt('0x' + clean.slice(66)) };
+    if (!isOnCurve(point)) {
+      throw new Error('Public key is not on the curve');
+    }
+    return point;
+  }
+
+  throw new Error('Unsupported public key encoding');
+};
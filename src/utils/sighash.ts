@@ -0,0 +1,231 @@
+import { Transaction } from '../types/bitcoin';
+import { bytesToHex, concatBytes, hash256, hexToBytes, reverseHex } from './hash';
+import {
+  classifyScript,
+  decodeScript,
+  encodeUInt32LE,
+  encodeUInt64LE,
+  encodeVarBytes,
+  encodeVarInt
+} from './transaction';
+
+export const SIGHASH_ALL = 0x01;
+export const SIGHASH_NONE = 0x02;
+export const SIGHASH_SINGLE = 0x03;
+export const SIGHASH_ANYONECANPAY = 0x80;
+
+// Consensus quirk: SIGHASH_SINGLE without a matching output signs the number 1
+const SIGHASH_ONE = '0000000000000000000000000000000000000000000000000000000000000001';
+
+export const describeSigHashType = (sigHashType: number): string => {
+  const base = sigHashType & 0x1f;
+  const name = base === SIGHASH_NONE ? 'NONE' : base === SIGHASH_SINGLE ? 'SINGLE' : 'ALL';
+  return sigHashType & SIGHASH_ANYONECANPAY ? `${name}|ANYONECANPAY` : name;
+};
+
+// Pre-segwit signature hash (Bitcoin Core's SignatureHash with SigVersion::BASE).
+// scriptCode is the spent output's scriptPubKey, or the redeem script for P2SH.
+export const legacySighash = (
+  tx: Transaction,
+  inputIndex: number,
+  scriptCode: string,
+  sigHashType: number
+): string => {
+  if (inputIndex < 0 || inputIndex >= tx.vin.length) {
+    throw new Error(`Transaction has no input ${inputIndex}`);
+  }
+
+  const base = sigHashType & 0x1f;
+  const anyoneCanPay = (sigHashType & SIGHASH_ANYONECANPAY) !== 0;
+
+  if (base === SIGHASH_SINGLE && inputIndex >= tx.vout.length) {
+    return SIGHASH_ONE;
+  }
+
+  const script = hexToBytes(removeCodeSeparators(scriptCode));
+  const parts: Uint8Array[] = [encodeUInt32LE(tx.version)];
+
+  // Inputs: only the signing input carries the script code; NONE and SINGLE
+  // let the other inputs change their sequence numbers
+  const inputs = anyoneCanPay ? [inputIndex] : tx.vin.map((_, i) => i);
+  parts.push(encodeVarInt(inputs.length));
+  inputs.forEach(i => {
+    const input = tx.vin[i];
+    const sequence = i !== inputIndex && (base === SIGHASH_NONE || base === SIGHASH_SINGLE) ? 0 : input.sequence;
+    parts.push(
+      hexToBytes(reverseHex(input.txid)),
+      encodeUInt32LE(input.vout),
+      encodeVarBytes(i === inputIndex ? script : new Uint8Array(0)),
+      encodeUInt32LE(sequence)
+    );
+  });
+
+  // Outputs: NONE signs none, SINGLE signs the matching output and blanks the
+  // ones before it to value -1 with an empty script
+  if (base === SIGHASH_NONE) {
+    parts.push(encodeVarInt(0));
+  } else if (base === SIGHASH_SINGLE) {
+    parts.push(encodeVarInt(inputIndex + 1));
+    for (let i = 0; i < inputIndex; i++) {
+      parts.push(new Uint8Array(8).fill(0xff), encodeVarInt(0));
+    }
+    const output = tx.vout[inputIndex];
+    parts.push(encodeUInt64LE(output.value), encodeVarBytes(hexToBytes(output.scriptPubKey.hex)));
+  } else {
+    parts.push(encodeVarInt(tx.vout.length));
+    tx.vout.forEach(output => {
+      parts.push(encodeUInt64LE(output.value), encodeVarBytes(hexToBytes(output.scriptPubKey.hex)));
+    });
+  }
+
+  parts.push(encodeUInt32LE(tx.locktime), encodeUInt32LE(sigHashType));
+
+  return bytesToHex(hash256(concatBytes(...parts)));
+};
+
+// BIP143 signature hash for segwit v0 inputs. amount is the spent output's
+// value in satoshis, which the digest commits to.
+export const segwitV0Sighash = (
+  tx: Transaction,
+  inputIndex: number,
+  scriptCode: string,
+  amount: number,
+  sigHashType: number
+): string => {
+  const input = tx.vin[inputIndex];
+  if (!input) {
+    throw new Error(`Transaction has no input ${inputIndex}`);
+  }
+
+  const base = sigHashType & 0x1f;
+  const anyoneCanPay = (sigHashType & SIGHASH_ANYONECANPAY) !== 0;
+  const zero: Uint8Array = new Uint8Array(32);
+
+  const hashPrevouts = anyoneCanPay
+    ? zero
+    : hash256(concatBytes(...tx.vin.map(vin => concatBytes(hexToBytes(reverseHex(vin.txid)), encodeUInt32LE(vin.vout)))));
+
+  const hashSequence = anyoneCanPay || base === SIGHASH_SINGLE || base === SIGHASH_NONE
+    ? zero
+    : hash256(concatBytes(...tx.vin.map(vin => encodeUInt32LE(vin.sequence))));
+
+  const serializeOutput = (index: number) => {
+    const output = tx.vout[index];
+    return concatBytes(encodeUInt64LE(output.value), encodeVarBytes(hexToBytes(output.scriptPubKey.hex)));
+  };
+
+  let hashOutputs: Uint8Array = zero;
+  if (base !== SIGHASH_SINGLE && base !== SIGHASH_NONE) {
+    hashOutputs = hash256(concatBytes(...tx.vout.map((_, i) => serializeOutput(i))));
+  } else if (base === SIGHASH_SINGLE && inputIndex < tx.vout.length) {
+    hashOutputs = hash256(serializeOutput(inputIndex));
+  }
+
+  const preimage = concatBytes(
+    encodeUInt32LE(tx.version),
+    hashPrevouts,
+    hashSequence,
+    hexToBytes(reverseHex(input.txid)),
+    encodeUInt32LE(input.vout),
+    encodeVarBytes(hexToBytes(scriptCode)),
+    encodeUInt64LE(amount),
+    encodeUInt32LE(input.sequence),
+    hashOutputs,
+    encodeUInt32LE(tx.locktime),
+    encodeUInt32LE(sigHashType)
+  );
+
+  return bytesToHex(hash256(preimage));
+};
+
+// Returns the v0 witness program an input spends (directly or nested in
+// P2SH), or null when the input is not a segwit v0 spend
+export const witnessV0Program = (tx: Transaction, inputIndex: number, prevScriptPubKey: string): string | null => {
+  const type = classifyScript(prevScriptPubKey);
+  if (type === 'witness_v0_keyhash' || type === 'witness_v0_scripthash') {
+    return prevScriptPubKey.toLowerCase();
+  }
+
+  if (type === 'scripthash') {
+    const redeemScript = legacyScriptCode(tx, inputIndex, prevScriptPubKey);
+    const redeemType = classifyScript(redeemScript);
+    if (redeemType === 'witness_v0_keyhash' || redeemType === 'witness_v0_scripthash') {
+      return redeemScript.toLowerCase();
+    }
+  }
+
+  return null;
+};
+
+// BIP143 scriptCode: the implied P2PKH script for key-hash programs, the
+// witness script (last stack item) for script-hash programs. Unlike legacy
+// signing, OP_CODESEPARATORs are serialized as is; the script is taken
+// whole, as for a signature checked before any separator executes.
+export const segwitScriptCode = (tx: Transaction, inputIndex: number, program: string): string => {
+  if (classifyScript(program) === 'witness_v0_keyhash') {
+    return `76a914${program.slice(4)}88ac`;
+  }
+
+  const witness = tx.vin[inputIndex].witness;
+  if (witness.length === 0) {
+    throw new Error(`Input ${inputIndex} has no witness script`);
+  }
+  return witness[witness.length - 1].toLowerCase();
+};
+
+// z for any ECDSA input: BIP143 for segwit v0 spends, legacy otherwise
+export const computeInputSighash = (
+  tx: Transaction,
+  inputIndex: number,
+  prevout: { scriptPubKey: string; value: number },
+  sigHashType: number
+): string => {
+  const program = witnessV0Program(tx, inputIndex, prevout.scriptPubKey);
+  if (program) {
+    return segwitV0Sighash(tx, inputIndex, segwitScriptCode(tx, inputIndex, program), prevout.value, sigHashType);
+  }
+
+  if (classifyScript(prevout.scriptPubKey) === 'witness_v1_taproot') {
+    throw new Error('Taproot inputs use Schnorr signatures, not ECDSA');
+  }
+
+  return legacySighash(tx, inputIndex, legacyScriptCode(tx, inputIndex, prevout.scriptPubKey), sigHashType);
+};
+
+// Picks the script a legacy input actually signed: the redeem script (last
+// scriptSig push) for P2SH, otherwise the spent scriptPubKey itself
+export const legacyScriptCode = (tx: Transaction, inputIndex: number, prevScriptPubKey: string): string => {
+  if (classifyScript(prevScriptPubKey) !== 'scripthash') {
+    return prevScriptPubKey;
+  }
+
+  const pushes = decodeScript(tx.vin[inputIndex].scriptSig.hex).filter(chunk => chunk.data);
+  if (pushes.length === 0) {
+    throw new Error(`Input ${inputIndex} has no redeem script`);
+  }
+  return bytesToHex(pushes[pushes.length - 1].data!);
+};
+
+const removeCodeSeparators = (scriptHex: string): string => {
+  const chunks = decodeScript(scriptHex);
+  if (!chunks.some(chunk => chunk.opcode === 0xab)) {
+    return scriptHex;
+  }
+
+  // Re-encode pushes with the opcode that originally carried them
+  return chunks
+    .filter(chunk => chunk.opcode !== 0xab)
+    .map(chunk => {
+      if (!chunk.data) return chunk.opcode.toString(16).padStart(2, '0');
+      const length = chunk.data.length;
+      const prefix = chunk.opcode < 0x4c
+        ? [chunk.opcode]
+        : chunk.opcode === 0x4c
+          ? [0x4c, length]
+          : chunk.opcode === 0x4d
+            ? [0x4d, length & 0xff, length >>> 8]
+            : [0x4e, ...encodeUInt32LE(length)];
+      return bytesToHex(new Uint8Array(prefix)) + bytesToHex(chunk.data);
+    })
+    .join('');
+};
@@ -0,0 +1,81 @@
+// Distribution functions for p-values, in doubles. erfc has a relative error
+// below 1.2e-7, which keeps very small p-values meaningful.
+
+const MAX_ITERATIONS = 1000;
+const EPSILON = 3e-16;
+const TINY = 1e-300;
+
+// Complementary error function (Chebyshev fit, Numerical Recipes erfcc)
+export const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const result = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? result : 2 - result;
+};
+
+// ln(Gamma(x)) for x > 0 (Lanczos approximation)
+export const lnGamma = (x: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  let series = 1.000000000190015;
+  coefficients.forEach(c => (series += c / ++y));
+  const t = x + 5.5;
+  return -(t - (x + 0.5) * Math.log(t)) + Math.log(2.5066282746310005 * series / x);
+};
+
+// P(a, x) by its power series, accurate for x < a + 1
+const gammaSeries = (a: number, x: number): number => {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+};
+
+// Q(a, x) by its continued fraction (modified Lentz), accurate for x >= a + 1
+const gammaFraction = (a: number, x: number): number => {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+};
+
+// Regularized lower incomplete gamma function P(a, x)
+export const gammaP = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaFraction(a, x);
+};
+
+// Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+export const gammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaFraction(a, x);
+};
+
+// P(X >= statistic) for a chi-squared variable with the given degrees of freedom
+export const chiSquaredTail = (statistic: number, degreesOfFreedom: number): number =>
+  gammaQ(degreesOfFreedom / 2, statistic / 2);
+
+// P(X >= count) for a Poisson variable with mean lambda
+export const poissonTail = (count: number, lambda: number): number =>
+  count <= 0 ? 1 : gammaP(count, lambda);
@@ -0,0 +1,336 @@
+import { SchnorrKeyRecovery, SchnorrSignature, Transaction } from '../types/bitcoin';
+import { bytesToHex, concatBytes, hexToBytes, reverseHex, sha256 } from './hash';
+import { SIGHASH_ANYONECANPAY, SIGHASH_NONE, SIGHASH_SINGLE } from './sighash';
+import {
+  classifyScript,
+  decodeScript,
+  encodeUInt32LE,
+  encodeUInt64LE,
+  encodeVarBytes
+} from './transaction';
+import { encodePoint, modInverse, N, P, privateToPublic } from './secp256k1';
+
+// BIP341: a 64-byte signature implies SIGHASH_DEFAULT, which signs like ALL
+export const SIGHASH_DEFAULT = 0x00;
+export const TAPSCRIPT_LEAF_VERSION = 0xc0;
+const ANNEX_TAG = 0x50;
+const NO_CODESEPARATOR = 0xffffffff;
+
+export interface TaprootWitness {
+  path: 'key' | 'script';
+  stack: string[];
+  annex?: string;
+  leafScript?: string;
+  leafVersion?: number;
+  controlBlock?: string;
+}
+
+export interface TaprootSighashOptions {
+  annex?: string;
+  leafScript?: string;
+  leafVersion?: number;
+  codeSeparatorPosition?: number;
+}
+
+// BIP340 tagged hash: SHA256(SHA256(tag) || SHA256(tag) || data)
+export const taggedHash = (tag: string, ...data: Uint8Array[]): Uint8Array => {
+  const tagHash = sha256(new TextEncoder().encode(tag));
+  return sha256(concatBytes(tagHash, tagHash, ...data));
+};
+
+// Parses a 64-byte (SIGHASH_DEFAULT) or 65-byte Schnorr signature
+export const parseSchnorrSignature = (signatureHex: string): { r: string; s: string; sigHashType: number } => {
+  const bytes = hexToBytes(signatureHex);
+  if (bytes.length !== 64 && bytes.length !== 65) {
+    throw new Error('Schnorr signatures are 64 or 65 bytes');
+  }
+
+  // An explicit 0x00 byte is invalid: SIGHASH_DEFAULT must use the 64-byte form
+  const sigHashType = bytes.length === 65 ? bytes[64] : SIGHASH_DEFAULT;
+  if (bytes.length === 65 && (sigHashType === SIGHASH_DEFAULT || !isValidTaprootSigHashType(sigHashType))) {
+    throw new Error(`Invalid taproot sighash type 0x${sigHashType.toString(16)}`);
+  }
+
+  const r = bytesToHex(bytes.slice(0, 32));
+  const s = bytesToHex(bytes.slice(32, 64));
+  if (BigInt('0x' + r) >= P || BigInt('0x' + s) >= N) {
+    throw new Error('Schnorr signature out of range');
+  }
+
+  return { r, s, sigHashType };
+};
+
+export const isValidTaprootSigHashType = (sigHashType: number): boolean => {
+  return [0x00, 0x01, 0x02, 0x03, 0x81, 0x82, 0x83].includes(sigHashType);
+};
+
+// Splits a P2TR witness into the signing stack and the script-path extras.
+// Returns null when the stack cannot be a taproot spend.
+export const splitTaprootWitness = (witness: string[]): TaprootWitness | null => {
+  let stack = witness.map(item => item.toLowerCase());
+  let annex: string | undefined;
+
+  if (stack.length >= 2 && stack[stack.length - 1].startsWith(ANNEX_TAG.toString(16))) {
+    annex = stack[stack.length - 1];
+    stack = stack.slice(0, -1);
+  }
+
+  if (stack.length === 1) {
+    return stack[0].length === 128 || stack[0].length === 130 ? { path: 'key', stack, annex } : null;
+  }
+
+  if (stack.length < 2) return null;
+
+  // Control block: leaf version byte, internal key, then 32-byte merkle path steps
+  const controlBlock = stack[stack.length - 1];
+  const controlLength = controlBlock.length / 2;
+  if (controlLength < 33 || controlLength > 33 + 128 * 32 || (controlLength - 33) % 32 !== 0) {
+    return null;
+  }
+
+  return {
+    path: 'script',
+    stack: stack.slice(0, -2),
+    annex,
+    leafScript: stack[stack.length - 2],
+    leafVersion: parseInt(controlBlock.slice(0, 2), 16) & 0xfe,
+    controlBlock
+  };
+};
+
+export const tapLeafHash = (script: string, leafVersion: number = TAPSCRIPT_LEAF_VERSION): string => {
+  return bytesToHex(taggedHash('TapLeaf', new Uint8Array([leafVersion]), encodeVarBytes(hexToBytes(script))));
+};
+
+// BIP341 signature message hash. Unlike segwit v0 it commits to the amount and
+// scriptPubKey of every spent output, so prevouts must cover all inputs unless
+// the signature is ANYONECANPAY. Passing leafScript makes it a script-path hash.
+export const taprootSighash = (
+  tx: Transaction,
+  inputIndex: number,
+  prevouts: ({ scriptPubKey: string; value: number } | undefined)[],
+  sigHashType: number,
+  options: TaprootSighashOptions = {}
+): string => {
+  const input = tx.vin[inputIndex];
+  if (!input) {
+    throw new Error(`Transaction has no input ${inputIndex}`);
+  }
+  if (!isValidTaprootSigHashType(sigHashType)) {
+    throw new Error(`Invalid taproot sighash type 0x${sigHashType.toString(16)}`);
+  }
+
+  const base = sigHashType & 0x03;
+  const anyoneCanPay = (sigHashType & SIGHASH_ANYONECANPAY) !== 0;
+  const spent = anyoneCanPay ? [prevouts[inputIndex]] : tx.vin.map((_, i) => prevouts[i]);
+  if (spent.some(prevout => !prevout)) {
+    throw new Error('Taproot sighash needs the spent output of every input');
+  }
+
+  const serializeOutput = (index: number) => {
+    const output = tx.vout[index];
+    return concatBytes(encodeUInt64LE(output.value), encodeVarBytes(hexToBytes(output.scriptPubKey.hex)));
+  };
+  const outpoint = (index: number) => {
+    return concatBytes(hexToBytes(reverseHex(tx.vin[index].txid)), encodeUInt32LE(tx.vin[index].vout));
+  };
+
+  const parts: Uint8Array[] = [
+    new Uint8Array([0x00]), // epoch
+    new Uint8Array([sigHashType]),
+    encodeUInt32LE(tx.version),
+    encodeUInt32LE(tx.locktime)
+  ];
+
+  if (!anyoneCanPay) {
+    parts.push(
+      sha256(concatBytes(...tx.vin.map((_, i) => outpoint(i)))),
+      sha256(concatBytes(...spent.map(prevout => encodeUInt64LE(prevout!.value)))),
+      sha256(concatBytes(...spent.map(prevout => encodeVarBytes(hexToBytes(prevout!.scriptPubKey))))),
+      sha256(concatBytes(...tx.vin.map(vin => encodeUInt32LE(vin.sequence))))
+    );
+  }
+
+  if (base !== SIGHASH_NONE && base !== SIGHASH_SINGLE) {
+    parts.push(sha256(concatBytes(...tx.vout.map((_, i) => serializeOutput(i)))));
+  }
+
+  const extFlag = options.leafScript !== undefined ? 1 : 0;
+  parts.push(new Uint8Array([extFlag * 2 + (options.annex ? 1 : 0)]));
+
+  if (anyoneCanPay) {
+    const prevout = prevouts[inputIndex]!;
+    parts.push(
+      outpoint(inputIndex),
+      encodeUInt64LE(prevout.value),
+      encodeVarBytes(hexToBytes(prevout.scriptPubKey)),
+      encodeUInt32LE(input.sequence)
+    );
+  } else {
+    parts.push(encodeUInt32LE(inputIndex));
+  }
+
+  if (options.annex) {
+    parts.push(sha256(encodeVarBytes(hexToBytes(options.annex))));
+  }
+
+  // Unlike legacy SINGLE there is no "sign 1" fallback: the spend is invalid
+  if (base === SIGHASH_SINGLE) {
+    if (inputIndex >= tx.vout.length) {
+      throw new Error(`SIGHASH_SINGLE input ${inputIndex} has no matching output`);
+    }
+    parts.push(sha256(serializeOutput(inputIndex)));
+  }
+
+  if (options.leafScript !== undefined) {
+    parts.push(
+      hexToBytes(tapLeafHash(options.leafScript, options.leafVersion ?? TAPSCRIPT_LEAF_VERSION)),
+      new Uint8Array([0x00]), // key_version
+      encodeUInt32LE(options.codeSeparatorPosition ?? NO_CODESEPARATOR)
+    );
+  }
+
+  return bytesToHex(taggedHash('TapSighash', concatBytes(...parts)));
+};
+
+// Reads every Schnorr signature an input carries. Key-path spends sign with
+// the x-only output key; script-path keys are only attributed when the leaf
+// script holds exactly one 32-byte key. z is left empty when prevouts are
+// missing, and scripts using OP_CODESEPARATOR are hashed as if none ran.
+export const extractTaprootSignatures = (
+  tx: Transaction,
+  inputIndex: number,
+  prevouts: ({ scriptPubKey: string; value: number } | undefined)[]
+): SchnorrSignature[] => {
+  const input = tx.vin[inputIndex];
+  if (!input) {
+    throw new Error(`Transaction has no input ${inputIndex}`);
+  }
+
+  const witness = splitTaprootWitness(input.witness);
+  if (!witness) {
+    throw new Error(`Input ${inputIndex} is not a taproot spend`);
+  }
+
+  const prevout = prevouts[inputIndex];
+  let publicKey = '';
+  if (witness.path === 'key') {
+    if (prevout && classifyScript(prevout.scriptPubKey) === 'witness_v1_taproot') {
+      publicKey = prevout.scriptPubKey.slice(4).toLowerCase();
+    }
+  } else {
+    try {
+      const keys = decodeScript(witness.leafScript!).filter(chunk => chunk.data?.length === 32);
+      publicKey = keys.length === 1 ? bytesToHex(keys[0].data!) : '';
+    } catch {
+      publicKey = '';
+    }
+  }
+
+  const signatures: SchnorrSignature[] = [];
+  witness.stack.forEach(item => {
+    let signature;
+    try {
+      signature = parseSchnorrSignature(item);
+    } catch {
+      return;
+    }
+
+    let z = '';
+    try {
+      z = taprootSighash(tx, inputIndex, prevouts, signature.sigHashType, {
+        annex: witness.annex,
+        leafScript: witness.leafScript,
+        leafVersion: witness.leafVersion
+      });
+    } catch {
+      z = '';
+    }
+
+    signatures.push({
+      txid: tx.txid,
+      inputIndex,
+      r: signature.r,
+      s: signature.s,
+      z,
+      publicKey,
+      sigHashType: signature.sigHashType
+    });
+  });
+
+  return signatures;
+};
+
+// BIP340 challenge e = H_challenge(r || P || m) mod n, with P the x-only key
+export const schnorrChallenge = (r: string, publicKey: string, message: string): bigint => {
+  const hash = taggedHash('BIP0340/challenge', hexToBytes(r.padStart(64, '0')), hexToBytes(publicKey), hexToBytes(message));
+  return BigInt('0x' + bytesToHex(hash)) % N;
+};
+
+// Schnorr nonce reuse: s = k + e*d, so two signatures sharing R give
+// d = (s1 - s2) / (e1 - e2). Unlike ECDSA the challenge binds r and the key, and
+// there is no s sign ambiguity. The recovered d is the even-y secret BIP340
+// signs with; for key-path spends that is the tweaked output key's secret.
+export const recoverSchnorrPrivateKey = (
+  r: string,
+  s1: string,
+  s2: string,
+  m1: string,
+  m2: string,
+  publicKey: string
+): { privateKey: string; nonce: string } | null => {
+  const e1 = schnorrChallenge(r, publicKey, m1);
+  const e2 = schnorrChallenge(r, publicKey, m2);
+  const denominator = ((e1 - e2) % N + N) % N;
+  if (denominator === 0n) return null;
+
+  const s1Big = BigInt('0x' + s1);
+  const s2Big = BigInt('0x' + s2);
+  const privateKey = (((s1Big - s2Big) % N + N) % N * modInverse(denominator, N)) % N;
+  if (privateKey === 0n) return null;
+
+  // Only accept a key whose point is the signer's even-y x-only key
+  if (encodePoint(privateToPublic(privateKey)) !== `02${publicKey.toLowerCase()}`) {
+    return null;
+  }
+
+  const nonce = ((s1Big - e1 * privateKey) % N + N) % N;
+  return {
+    privateKey: privateKey.toString(16).padStart(64, '0'),
+    nonce: nonce.toString(16).padStart(64, '0')
+  };
+};
+
+// Groups Schnorr signatures by key and R, and recovers every key that reused a
+// nonce across two different messages
+export const findSchnorrNonceReuse = (signatures: SchnorrSignature[]): SchnorrKeyRecovery[] => {
+  const groups = new Map<string, SchnorrSignature[]>();
+  signatures.forEach(sig => {
+    if (!sig.z || !sig.publicKey) return;
+    const id = `${sig.publicKey.toLowerCase()}:${sig.r.toLowerCase()}`;
+    if (!groups.has(id)) groups.set(id, []);
+    groups.get(id)!.push(sig);
+  });
+
+  const recoveries: SchnorrKeyRecovery[] = [];
+  groups.forEach(sigs => {
+    for (let i = 0; i < sigs.length; i++) {
+      const pair = sigs.slice(i + 1).find(other => other.z !== sigs[i].z);
+      if (!pair) continue;
+
+      const result = recoverSchnorrPrivateKey(sigs[i].r, sigs[i].s, pair.s, sigs[i].z, pair.z, sigs[i].publicKey);
+      if (result) {
+        recoveries.push({
+          r: sigs[i].r.toLowerCase(),
+          publicKey: sigs[i].publicKey.toLowerCase(),
+          privateKey: result.privateKey,
+          nonce: result.nonce,
+          signatures: sigs
+        });
+        break;
+      }
+    }
+  });
+
+  return recoveries;
+};
@@ -0,0 +1,413 @@
+import { ECDSASignature, Transaction, TransactionInput, TransactionOutput } from '../types/bitcoin';
+import { bytesToHex, concatBytes, hash160, hash256, hexToBytes, reverseHex } from './hash';
+
+export interface ScriptChunk {
+  opcode: number;
+  data?: Uint8Array;
+}
+
+export interface DERSignature {
+  r: string;
+  s: string;
+  sigHashType: number;
+}
+
+const OPCODE_NAMES: Record<number, string> = {
+  0x00: 'OP_0',
+  0x4c: 'OP_PUSHDATA1',
+  0x4d: 'OP_PUSHDATA2',
+  0x4e: 'OP_PUSHDATA4',
+  0x4f: 'OP_1NEGATE',
+  0x61: 'OP_NOP',
+  0x63: 'OP_IF',
+  0x64: 'OP_NOTIF',
+  0x67: 'OP_ELSE',
+  0x68: 'OP_ENDIF',
+  0x69: 'OP_VERIFY',
+  0x6a: 'OP_RETURN',
+  0x75: 'OP_DROP',
+  0x76: 'OP_DUP',
+  0x7c: 'OP_SWAP',
+  0x82: 'OP_SIZE',
+  0x87: 'OP_EQUAL',
+  0x88: 'OP_EQUALVERIFY',
+  0xa8: 'OP_SHA256',
+  0xa9: 'OP_HASH160',
+  0xaa: 'OP_HASH256',
+  0xab: 'OP_CODESEPARATOR',
+  0xac: 'OP_CHECKSIG',
+  0xad: 'OP_CHECKSIGVERIFY',
+  0xae: 'OP_CHECKMULTISIG',
+  0xaf: 'OP_CHECKMULTISIGVERIFY',
+  0xb1: 'OP_CHECKLOCKTIMEVERIFY',
+  0xb2: 'OP_CHECKSEQUENCEVERIFY',
+  0xba: 'OP_CHECKSIGADD'
+};
+
+// Sequential little-endian reader over raw transaction and block bytes
+export class ByteReader {
+  offset = 0;
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (length > this.remaining) {
+      throw new Error(`Unexpected end of data at byte ${this.offset}`);
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  readUInt8(): number {
+    return this.readBytes(1)[0];
+  }
+
+  readUInt16LE(): number {
+    const b = this.readBytes(2);
+    return b[0] | (b[1] << 8);
+  }
+
+  readUInt32LE(): number {
+    const b = this.readBytes(4);
+    return (b[0] | (b[1] << 8) | (b[2] << 16) | (b[3] << 24)) >>> 0;
+  }
+
+  // Satoshi amounts fit well within Number.MAX_SAFE_INTEGER
+  readUInt64LE(): number {
+    const low = this.readUInt32LE();
+    const high = this.readUInt32LE();
+    return high * 0x100000000 + low;
+  }
+
+  readVarInt(): number {
+    const first = this.readUInt8();
+    if (first < 0xfd) return first;
+    if (first === 0xfd) return this.readUInt16LE();
+    if (first === 0xfe) return this.readUInt32LE();
+    return this.readUInt64LE();
+  }
+
+  readVarBytes(): Uint8Array {
+    return this.readBytes(this.readVarInt());
+  }
+}
+
+export const parseTransaction = (rawHex: string): Transaction => {
+  const reader = new ByteReader(hexToBytes(rawHex.replace(/\s+/g, '')));
+  const tx = readTransaction(reader);
+
+  if (reader.remaining !== 0) {
+    throw new Error(`Unexpected ${reader.remaining} trailing bytes after transaction`);
+  }
+  return tx;
+};
+
+// Reads one transaction at the reader's offset, e.g. the next one in a block
+export const readTransaction = (reader: ByteReader): Transaction => {
+  const { bytes } = reader;
+  const start = reader.offset;
+  const version = reader.readUInt32LE();
+
+  // BIP144: a zero input count followed by flag 0x01 marks witness serialization
+  let segwit = false;
+  if (reader.remaining >= 2 && bytes[reader.offset] === 0x00 && bytes[reader.offset + 1] === 0x01) {
+    segwit = true;
+    reader.readBytes(2);
+  }
+
+  const bodyStart = reader.offset;
+
+  const inputCount = reader.readVarInt();
+  const vin: TransactionInput[] = [];
+  for (let i = 0; i < inputCount; i++) {
+    const txid = reverseHex(bytesToHex(reader.readBytes(32)));
+    const vout = reader.readUInt32LE();
+    const scriptHex = bytesToHex(reader.readVarBytes());
+    const sequence = reader.readUInt32LE();
+
+    vin.push({
+      txid,
+      vout,
+      scriptSig: { asm: scriptToAsm(scriptHex), hex: scriptHex },
+      sequence,
+      witness: []
+    });
+  }
+
+  const outputCount = reader.readVarInt();
+  const vout: TransactionOutput[] = [];
+  for (let i = 0; i < outputCount; i++) {
+    const value = reader.readUInt64LE();
+    const scriptHex = bytesToHex(reader.readVarBytes());
+
+    vout.push({
+      value,
+      scriptPubKey: {
+        asm: scriptToAsm(scriptHex),
+        hex: scriptHex,
+        type: classifyScript(scriptHex)
+      }
+    });
+  }
+
+  const bodyEnd = reader.offset;
+
+  if (segwit) {
+    vin.forEach(input => {
+      const itemCount = reader.readVarInt();
+      for (let i = 0; i < itemCount; i++) {
+        input.witness.push(bytesToHex(reader.readVarBytes()));
+      }
+    });
+  }
+
+  const locktime = reader.readUInt32LE();
+  const end = reader.offset;
+
+  // The txid commits to the legacy serialization, without marker, flag and witnesses
+  const legacyBytes = new Uint8Array(8 + bodyEnd - bodyStart);
+  legacyBytes.set(bytes.slice(start, start + 4));
+  legacyBytes.set(bytes.slice(bodyStart, bodyEnd), 4);
+  legacyBytes.set(bytes.slice(end - 4, end), 4 + bodyEnd - bodyStart);
+
+  return {
+    txid: reverseHex(bytesToHex(hash256(legacyBytes))),
+    version,
+    locktime,
+    vin,
+    vout,
+    hex: bytesToHex(bytes.slice(start, end)),
+    segwit
+  };
+};
+
+export const encodeVarInt = (value: number): Uint8Array => {
+  if (value < 0xfd) return new Uint8Array([value]);
+  if (value <= 0xffff) return concatBytes(new Uint8Array([0xfd]), encodeUInt16LE(value));
+  if (value <= 0xffffffff) return concatBytes(new Uint8Array([0xfe]), encodeUInt32LE(value));
+  return concatBytes(new Uint8Array([0xff]), encodeUInt64LE(value));
+};
+
+export const encodeUInt16LE = (value: number): Uint8Array => {
+  return new Uint8Array([value & 0xff, (value >>> 8) & 0xff]);
+};
+
+export const encodeUInt32LE = (value: number): Uint8Array => {
+  return new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]);
+};
+
+export const encodeUInt64LE = (value: number): Uint8Array => {
+  const low = value % 0x100000000;
+  const high = Math.floor(value / 0x100000000);
+  return concatBytes(encodeUInt32LE(low), encodeUInt32LE(high));
+};
+
+export const encodeVarBytes = (bytes: Uint8Array): Uint8Array => {
+  return concatBytes(encodeVarInt(bytes.length), bytes);
+};
+
+export const serializeTransaction = (tx: Transaction, includeWitness: boolean = true): Uint8Array => {
+  const withWitness = includeWitness && tx.vin.some(input => input.witness.length > 0);
+  const parts: Uint8Array[] = [encodeUInt32LE(tx.version)];
+
+  if (withWitness) {
+    parts.push(new Uint8Array([0x00, 0x01]));
+  }
+
+  parts.push(encodeVarInt(tx.vin.length));
+  tx.vin.forEach(input => {
+    parts.push(
+      hexToBytes(reverseHex(input.txid)),
+      encodeUInt32LE(input.vout),
+      encodeVarBytes(hexToBytes(input.scriptSig.hex)),
+      encodeUInt32LE(input.sequence)
+    );
+  });
+
+  parts.push(encodeVarInt(tx.vout.length));
+  tx.vout.forEach(output => {
+    parts.push(encodeUInt64LE(output.value), encodeVarBytes(hexToBytes(output.scriptPubKey.hex)));
+  });
+
+  if (withWitness) {
+    tx.vin.forEach(input => {
+      parts.push(encodeVarInt(input.witness.length));
+      input.witness.forEach(item => parts.push(encodeVarBytes(hexToBytes(item))));
+    });
+  }
+
+  parts.push(encodeUInt32LE(tx.locktime));
+  return concatBytes(...parts);
+};
+
+export const decodeScript = (scriptHex: string): ScriptChunk[] => {
+  const reader = new ByteReader(hexToBytes(scriptHex));
+  const chunks: ScriptChunk[] = [];
+
+  while (reader.remaining > 0) {
+    const opcode = reader.readUInt8();
+
+    if (opcode > 0 && opcode < 0x4c) {
+      chunks.push({ opcode, data: reader.readBytes(opcode) });
+    } else if (opcode === 0x4c) {
+      chunks.push({ opcode, data: reader.readBytes(reader.readUInt8()) });
+    } else if (opcode === 0x4d) {
+      chunks.push({ opcode, data: reader.readBytes(reader.readUInt16LE()) });
+    } else if (opcode === 0x4e) {
+      chunks.push({ opcode, data: reader.readBytes(reader.readUInt32LE()) });
+    } else {
+      chunks.push({ opcode });
+    }
+  }
+
+  return chunks;
+};
+
+export const scriptToAsm = (scriptHex: string): string => {
+  try {
+    return decodeScript(scriptHex).map(chunk => {
+      if (chunk.data) return bytesToHex(chunk.data);
+      if (chunk.opcode >= 0x51 && chunk.opcode <= 0x60) return `OP_${chunk.opcode - 0x50}`;
+      return OPCODE_NAMES[chunk.opcode] || `OP_UNKNOWN_0x${chunk.opcode.toString(16)}`;
+    }).join(' ');
+  } catch {
+    return '[error]';
+  }
+};
+
+// Script type names follow Bitcoin Core's scriptPubKey.type
+export const classifyScript = (scriptHex: string): string => {
+  const hex = scriptHex.toLowerCase();
+
+  if (/^76a914[0-9a-f]{40}88ac$/.test(hex)) return 'pubkeyhash';
+  if (/^a914[0-9a-f]{40}87$/.test(hex)) return 'scripthash';
+  if (/^0014[0-9a-f]{40}$/.test(hex)) return 'witness_v0_keyhash';
+  if (/^0020[0-9a-f]{64}$/.test(hex)) return 'witness_v0_scripthash';
+  if (/^5120[0-9a-f]{64}$/.test(hex)) return 'witness_v1_taproot';
+  if (/^(21(02|03)[0-9a-f]{64}|4104[0-9a-f]{128})ac$/.test(hex)) return 'pubkey';
+  if (hex.startsWith('6a')) return 'nulldata';
+  if (/^5[1-9a-f].*5[1-9a-f]ae$/.test(hex)) return 'multisig';
+
+  return 'nonstandard';
+};
+
+// Parses a DER-encoded ECDSA signature with its trailing sighash byte
+export const parseDERSignature = (signatureHex: string): DERSignature => {
+  const bytes = hexToBytes(signatureHex);
+
+  if (bytes.length < 9 || bytes[0] !== 0x30) {
+    throw new Error('Not a DER signature');
+  }
+
+  const totalLength = bytes[1];
+  if (totalLength + 2 > bytes.length || bytes[2] !== 0x02) {
+    throw new Error('Malformed DER signature');
+  }
+
+  const rLength = bytes[3];
+  const r = bytes.slice(4, 4 + rLength);
+  const sMarker = 4 + rLength;
+  if (bytes[sMarker] !== 0x02) {
+    throw new Error('Malformed DER signature');
+  }
+
+  const sLength = bytes[sMarker + 1];
+  const s = bytes.slice(sMarker + 2, sMarker + 2 + sLength);
+  if (sMarker + 2 + sLength !== totalLength + 2 || r.length !== rLength || s.length !== sLength) {
+    throw new Error('Malformed DER signature');
+  }
+
+  const trailing = bytes.length - (totalLength + 2);
+  if (trailing > 1) {
+    throw new Error('Unexpected data after DER signature');
+  }
+
+  return {
+    r: BigInt('0x' + (bytesToHex(r) || '0')).toString(16).padStart(64, '0'),
+    s: BigInt('0x' + (bytesToHex(s) || '0')).toString(16).padStart(64, '0'),
+    sigHashType: trailing === 1 ? bytes[bytes.length - 1] : 0
+  };
+};
+
+// BIP66 strict DER check, including the trailing sighash byte
+export const isStrictDER = (signatureHex: string): boolean => {
+  let sig: Uint8Array;
+  try {
+    sig = hexToBytes(signatureHex);
+  } catch {
+    return false;
+  }
+
+  if (sig.length < 9 || sig.length > 73) return false;
+  if (sig[0] !== 0x30 || sig[1] !== sig.length - 3) return false;
+
+  const lenR = sig[3];
+  if (5 + lenR >= sig.length) return false;
+  const lenS = sig[5 + lenR];
+  if (lenR + lenS + 7 !== sig.length) return false;
+
+  if (sig[2] !== 0x02 || lenR === 0 || sig[4] & 0x80) return false;
+  if (lenR > 1 && sig[4] === 0x00 && !(sig[5] & 0x80)) return false;
+
+  if (sig[lenR + 4] !== 0x02 || lenS === 0 || sig[lenR + 6] & 0x80) return false;
+  if (lenS > 1 && sig[lenR + 6] === 0x00 && !(sig[lenR + 7] & 0x80)) return false;
+
+  return true;
+};
+
+export const buildP2PKHScript = (publicKeyHex: string): string => {
+  return `76a914${bytesToHex(hash160(hexToBytes(publicKeyHex)))}88ac`;
+};
+
+export const isPublicKeyHex = (hex: string): boolean => {
+  return /^(02|03)[0-9a-f]{64}$/i.test(hex) || /^04[0-9a-f]{128}$/i.test(hex);
+};
+
+// Pulls the first ECDSA signature and public key out of an input's scriptSig
+// or witness stack. z is left empty; it needs the spent output to compute.
+export const extractInputSignature = (tx: Transaction, inputIndex: number): ECDSASignature => {
+  const input = tx.vin[inputIndex];
+  if (!input) {
+    throw new Error(`Transaction has no input ${inputIndex}`);
+  }
+
+  if (/^0{64}$/.test(input.txid) && input.vout === 0xffffffff) {
+    throw new Error('Coinbase inputs carry no signature');
+  }
+
+  const items = input.witness.length > 0
+    ? input.witness
+    : decodeScript(input.scriptSig.hex).filter(chunk => chunk.data).map(chunk => bytesToHex(chunk.data!));
+
+  let signature: DERSignature | null = null;
+  for (const item of items) {
+    try {
+      signature = parseDERSignature(item);
+      break;
+    } catch {
+      // Not a signature push, keep looking
+    }
+  }
+
+  if (!signature) {
+    throw new Error(`Input ${inputIndex} has no ECDSA signature`);
+  }
+
+  const publicKey = items.find(isPublicKeyHex)?.toLowerCase() || '';
+
+  return {
+    txid: tx.txid,
+    inputIndex,
+    r: signature.r,
+    s: signature.s,
+    z: '',
+    publicKey,
+    x: publicKey.slice(2, 66),
+    sigHashType: signature.sigHashType
+  };
+};
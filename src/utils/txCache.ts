@@ -0,0 +1,291 @@
+import { UTXO } from '../types/blockchain';
+import { ChainBlock, ChainCacheStats, ChainDataProvider, ChainTransaction, Prevout } from '../types/chain';
+import { parseTransaction } from './transaction';
+
+const DB_NAME = 'ecdsapivot-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const DEFAULT_MEMORY_ENTRIES = 5000;
+const DEFAULT_STORED_ENTRIES = 50000;
+
+type CacheValue = string | Prevout | number;
+
+interface StoredEntry {
+  key: string;
+  value: CacheValue;
+  accessed: number;
+}
+
+// Map iteration order is insertion order, so re-inserting on every read
+// keeps the least recently used entry first
+export class LruCache<V> {
+  private entries = new Map<string, V>();
+
+  constructor(readonly capacity: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('accessed', 'accessed');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Raw transactions, prevouts and (short of a reorg) confirmed heights never
+// change once mined, so they are kept in an in-memory LRU backed by IndexedDB;
+// pivot.py does the same with pylru and its cachehit/cachemiss counters.
+// Without IndexedDB (or if opening it fails) the cache is memory-only.
+export class TransactionCache {
+  private memory: LruCache<CacheValue>;
+  private storedLimit: number;
+  private db: Promise<IDBDatabase | null>;
+  private storedCount = 0;
+  private persistent = false;
+  private hits = 0;
+  private misses = 0;
+  private listeners = new Set<(stats: ChainCacheStats) => void>();
+
+  constructor(options: { memoryEntries?: number; storedEntries?: number } = {}) {
+    this.memory = new LruCache(options.memoryEntries ?? DEFAULT_MEMORY_ENTRIES);
+    this.storedLimit = options.storedEntries ?? DEFAULT_STORED_ENTRIES;
+    this.db = typeof indexedDB === 'undefined'
+      ? Promise.resolve(null)
+      : openDatabase()
+        .then(async db => {
+          this.persistent = true;
+          this.storedCount = await promisify(db.transaction(STORE).objectStore(STORE).count());
+          return db;
+        })
+        .catch(() => null);
+    this.db.then(() => this.notify());
+  }
+
+  get stats(): ChainCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.memory.size,
+      capacity: this.memory.capacity,
+      persistent: this.persistent
+    };
+  }
+
+  subscribe(listener: (stats: ChainCacheStats) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async getTransactionHex(txid: string, load: () => Promise<string>): Promise<string> {
+    return this.through(`tx:${txid.toLowerCase()}`, load) as Promise<string>;
+  }
+
+  // Only confirmed heights are kept; an unconfirmed transaction is asked again
+  async getTransactionHeight(txid: string, load: () => Promise<number | undefined>): Promise<number | undefined> {
+    const key = `height:${txid.toLowerCase()}`;
+    const cached = await this.lookup(key);
+    if (cached !== undefined) {
+      this.hits++;
+      this.notify();
+      return cached as number;
+    }
+
+    this.misses++;
+    const height = await load();
+    if (height !== undefined) {
+      this.memory.set(key, height);
+      await this.store(key, height);
+    }
+    this.notify();
+    return height;
+  }
+
+  // A cached transaction answers for all of its outputs
+  async getPrevout(txid: string, vout: number, load: () => Promise<Prevout>): Promise<Prevout> {
+    const id = txid.toLowerCase();
+    return this.through(`prevout:${id}:${vout}`, load, async () => {
+      const hex = await this.lookup(`tx:${id}`);
+      const output = typeof hex === 'string' ? parseTransaction(hex).vout[vout] : undefined;
+      return output && { scriptPubKey: output.scriptPubKey.hex, value: output.value };
+    }) as Promise<Prevout>;
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.hits = 0;
+    this.misses = 0;
+    const db = await this.db;
+    if (db) {
+      await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+      this.storedCount = 0;
+    }
+    this.notify();
+  }
+
+  private async through(
+    key: string,
+    load: () => Promise<CacheValue>,
+    derive?: () => Promise<CacheValue | undefined>
+  ): Promise<CacheValue> {
+    let cached = await this.lookup(key);
+    if (cached === undefined && derive) {
+      cached = await derive();
+      if (cached !== undefined) this.memory.set(key, cached);
+    }
+    if (cached !== undefined) {
+      this.hits++;
+      this.notify();
+      return cached;
+    }
+
+    this.misses++;
+    const value = await load();
+    this.memory.set(key, value);
+    this.notify();
+    await this.store(key, value);
+    return value;
+  }
+
+  private async lookup(key: string): Promise<CacheValue | undefined> {
+    const inMemory = this.memory.get(key);
+    if (inMemory !== undefined) return inMemory;
+
+    const db = await this.db;
+    if (!db) return undefined;
+    try {
+      const entry = await promisify<StoredEntry | undefined>(
+        db.transaction(STORE).objectStore(STORE).get(key)
+      );
+      if (!entry) return undefined;
+      this.memory.set(key, entry.value);
+      // Refresh the access time so eviction stays least-recently-used
+      await this.write(db, { ...entry, accessed: Date.now() });
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async store(key: string, value: CacheValue): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+    try {
+      await this.write(db, { key, value, accessed: Date.now() });
+      this.storedCount++;
+      if (this.storedCount > this.storedLimit) {
+        await this.evict(db);
+      }
+    } catch {
+      // Quota errors just leave the entry memory-only
+    }
+  }
+
+  private write(db: IDBDatabase, entry: StoredEntry): Promise<IDBValidKey> {
+    return promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+  }
+
+  // Drops the oldest tenth of the limit at once rather than one entry per write
+  private evict(db: IDBDatabase): Promise<void> {
+    const target = this.storedLimit - Math.ceil(this.storedLimit / 10);
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.index('accessed').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || this.storedCount <= target) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        this.storedCount--;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private notify(): void {
+    const stats = this.stats;
+    this.listeners.forEach(listener => listener(stats));
+  }
+}
+
+// Routes the immutable lookups through the cache; everything that depends on
+// the current tip (confirmations, histories, UTXOs) still goes to the backend
+export class CachedChainProvider implements ChainDataProvider {
+  constructor(readonly inner: ChainDataProvider, readonly cache: TransactionCache) {}
+
+  get backend() {
+    return this.inner.backend;
+  }
+
+  get network() {
+    return this.inner.network;
+  }
+
+  getTransaction(txid: string): Promise<ChainTransaction> {
+    return this.inner.getTransaction(txid);
+  }
+
+  getTransactionHex(txid: string): Promise<string> {
+    return this.cache.getTransactionHex(txid, () => this.inner.getTransactionHex(txid));
+  }
+
+  getTransactionHeight(txid: string): Promise<number | undefined> {
+    return this.cache.getTransactionHeight(txid, () => this.inner.getTransactionHeight(txid));
+  }
+
+  getPrevout(txid: string, vout: number): Promise<Prevout> {
+    return this.cache.getPrevout(txid, vout, () => this.inner.getPrevout(txid, vout));
+  }
+
+  getBlock(hashOrHeight: string | number): Promise<ChainBlock> {
+    return this.inner.getBlock(hashOrHeight);
+  }
+
+  getAddressHistory(address: string): Promise<ChainTransaction[]> {
+    return this.inner.getAddressHistory(address);
+  }
+
+  getUtxos(address: string): Promise<UTXO[]> {
+    return this.inner.getUtxos(address);
+  }
+}
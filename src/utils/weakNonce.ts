@@ -0,0 +1,139 @@
+import { DenovoSignature } from '../types/denovo';
+import { matchPublicKey, solveForPrivateKey } from './bitcoinAnalysis';
+import { bytesToHex, sha256 } from './hash';
+import { G, generatorMultiplesX, mod, modInverse, N, pointMultiply } from './secp256k1';
+import { schnorrChallenge } from './taproot';
+
+export const DEFAULT_SMALL_NONCE_BITS = 20;
+export const MAX_SMALL_NONCE_BITS = 24;
+
+export interface WeakNonceCandidate {
+  k: bigint;
+  label: string;
+}
+
+export interface WeakNonceMatch extends WeakNonceCandidate {
+  signature: DenovoSignature;
+  privateKey?: string; // set when the key checks out against the signer's public key
+}
+
+const sha256Text = (text: string): bigint => BigInt('0x' + bytesToHex(sha256(new TextEncoder().encode(text))));
+
+// Nonces seen from broken signers, test vectors and copy-pasted examples. k
+// and n - k give the same r, so no entry is the negation of another: n - 1
+// and n - 2 are found as k = 1 and k = 2, and (n - 1)/2 as k = 1/2 mod n.
+const KNOWN_WEAK_NONCES: WeakNonceCandidate[] = [
+  { label: 'k = 1/2 mod n', k: (N + 1n) / 2n },
+  { label: 'k = 2^128', k: 1n << 128n },
+  { label: 'k = 2^255', k: 1n << 255n },
+  { label: 'k = 2^256 - 1 mod n', k: mod((1n << 256n) - 1n, N) },
+  { label: 'k = SHA256("")', k: mod(sha256Text(''), N) },
+  { label: 'k = SHA256("0")', k: mod(sha256Text('0'), N) },
+  { label: 'k = SHA256("1")', k: mod(sha256Text('1'), N) },
+  { label: 'k = 0x1234567890abcdef...', k: mod(BigInt('0x' + '1234567890abcdef'.repeat(4)), N) },
+  { label: 'k = 0x0123456789abcdef...', k: mod(BigInt('0x' + '0123456789abcdef'.repeat(4)), N) },
+  { label: 'k = 0xdeadbeef...', k: mod(BigInt('0x' + 'deadbeef'.repeat(8)), N) },
+  { label: 'k = 0x1111...1111', k: mod(BigInt('0x' + '1'.repeat(64)), N) },
+  { label: 'k = 0xffff...ffff (128 bits)', k: (1n << 128n) - 1n }
+];
+
+const fingerprint = (x: bigint): number => Number(x & 0xffffffffn);
+
+// r = x(k*G) for k = 1..2^bits plus the known constants. The small-k part is
+// an open-addressing hash of the low 32 bits of x, with k stored in each
+// slot; a fingerprint hit is only a candidate until the caller recomputes k*G.
+export class WeakNonceTable {
+  readonly size: number;
+  private fingerprints: Uint32Array; // fingerprints[k - 1]
+  private slots: Uint32Array; // k, or 0 for an empty slot
+  private mask: number;
+  private constants = new Map<bigint, WeakNonceCandidate[]>();
+
+  constructor(readonly bits: number = DEFAULT_SMALL_NONCE_BITS) {
+    if (bits < 1 || bits > MAX_SMALL_NONCE_BITS) {
+      throw new Error(`Small nonce table size must be between 2^1 and 2^${MAX_SMALL_NONCE_BITS}`);
+    }
+
+    this.size = 2 ** bits;
+    this.fingerprints = new Uint32Array(this.size);
+    // Twice as many slots as entries keeps probe chains short
+    this.slots = new Uint32Array(this.size * 2);
+    this.mask = this.size * 2 - 1;
+
+    generatorMultiplesX(this.size, (first, xs) => {
+      xs.forEach((x, i) => {
+        const k = first + i;
+        const print = fingerprint(x);
+        this.fingerprints[k - 1] = print;
+        let slot = print & this.mask;
+        while (this.slots[slot] !== 0) slot = (slot + 1) & this.mask;
+        this.slots[slot] = k;
+      });
+    });
+
+    // A constant the small-k part already covers would match twice
+    KNOWN_WEAK_NONCES.forEach(candidate => {
+      if (candidate.k <= BigInt(this.size) || N - candidate.k <= BigInt(this.size)) return;
+      const x = pointMultiply(candidate.k, G).x;
+      if (!this.constants.has(x)) this.constants.set(x, []);
+      this.constants.get(x)!.push(candidate);
+    });
+  }
+
+  // Nonces whose point has this x coordinate; k and n - k share it
+  lookup(x: bigint): WeakNonceCandidate[] {
+    const candidates = [...(this.constants.get(x) ?? [])];
+    const print = fingerprint(x);
+
+    for (let slot = print & this.mask; this.slots[slot] !== 0; slot = (slot + 1) & this.mask) {
+      const k = this.slots[slot];
+      if (this.fingerprints[k - 1] === print && pointMultiply(BigInt(k), G).x === x) {
+        candidates.push({ k: BigInt(k), label: `k = ${k}` });
+      }
+    }
+
+    return candidates;
+  }
+}
+
+// Building the table is the slow part, so the last one is kept
+let cachedTable: WeakNonceTable | null = null;
+
+export const getWeakNonceTable = (bits: number = DEFAULT_SMALL_NONCE_BITS): WeakNonceTable => {
+  if (!cachedTable || cachedTable.bits !== bits) {
+    cachedTable = new WeakNonceTable(bits);
+  }
+  return cachedTable;
+};
+
+const hex = (value: bigint): string => value.toString(16).padStart(64, '0');
+
+// d from a signature with a known nonce, trying k and n - k since both give
+// the same r (low-S normalisation or BIP340's even-y rule may have negated it)
+const recoverWithNonce = (sig: DenovoSignature, k: bigint): string | undefined => {
+  if (!sig.z || !sig.publicKey) return undefined;
+  const r = BigInt('0x' + sig.r);
+  const s = BigInt('0x' + sig.s);
+
+  for (const nonce of [k, N - k]) {
+    const privateKey = sig.scheme === 'SCHNORR'
+      ? mod((s - nonce) * modInverse(schnorrChallenge(sig.r, sig.publicKey, sig.z), N), N)
+      : solveForPrivateKey(r, s, BigInt('0x' + sig.z), nonce);
+    if (privateKey !== 0n && matchPublicKey(privateKey, sig.publicKey)) return hex(privateKey);
+  }
+  return undefined;
+};
+
+// Looks every signature's r up in the table. ECDSA r is x mod n, which for
+// all but a negligible share of points is x itself.
+export const findWeakNonces = (signatures: DenovoSignature[], table: WeakNonceTable): WeakNonceMatch[] => {
+  const matches: WeakNonceMatch[] = [];
+
+  signatures.forEach(signature => {
+    table.lookup(BigInt('0x' + signature.r)).forEach(candidate => {
+      matches.push({ ...candidate, signature, privateKey: recoverWithNonce(signature, candidate.k) });
+    });
+  });
+
+  return matches;
+};